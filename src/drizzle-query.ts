@@ -2,8 +2,12 @@ import type { ForcedSubject } from "@casl/ability"
 import type { AnyInterpreter } from "@ucast/core"
 import { createTranslatorFactory } from "@ucast/core"
 
-import { interpretDrizzleQuery } from "./query-interpreter"
+import {
+  createDrizzleInterpreter,
+  interpretDrizzleQuery,
+} from "./query-interpreter"
 import { DrizzleQueryParser } from "./query-parser"
+import type { DrizzleAbilityOptions } from "./types"
 
 const parser = new DrizzleQueryParser()
 export const drizzleQuery = createTranslatorFactory(
@@ -11,6 +15,17 @@ export const drizzleQuery = createTranslatorFactory(
   interpretDrizzleQuery as AnyInterpreter
 )
 
+/**
+ * Creates a conditions matcher like `drizzleQuery`, configured by the ability options.
+ * @internal
+ */
+export function createDrizzleQuery(options: DrizzleAbilityOptions = {}) {
+  return createTranslatorFactory(
+    new DrizzleQueryParser(options).parse,
+    createDrizzleInterpreter(options) as AnyInterpreter
+  )
+}
+
 export type Model<T, TName extends string> = T & ForcedSubject<TName>
 export type Subjects<
   T extends Partial<Record<string, Record<string, unknown>>>,
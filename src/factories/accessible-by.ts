@@ -1,61 +1,535 @@
 import type { AnyAbility, Ability } from "@casl/ability"
 import { ForbiddenError } from "@casl/ability"
 import { rulesToCondition } from "@casl/ability/extra"
+import type { Table } from "drizzle-orm"
+import { getTableName, sql } from "drizzle-orm"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
 
-import type { DrizzleAbility, WhereInput } from "../types"
+import { compileDrizzleQuery } from "../query-compiler"
+import { ParsingQueryError, withinPath } from "../query-error"
+import { DrizzleQueryParser } from "../query-parser"
+import type { DrizzleAbility, EverySemantics, WhereInput } from "../types"
+import { getDrizzleAbilityOptions } from "./create-ability"
 
-function normalizeDrizzleConditions(obj: unknown): unknown {
+const RELATION_QUANTIFIERS = new Set(["some", "every", "none", "is", "isNot"])
+const SQL_FIELD_OPERATORS = new Set([
+  "json",
+  "regex",
+  "iregex",
+  "search",
+  "$regex",
+  "$options",
+])
+
+const parsers: Record<EverySemantics, DrizzleQueryParser> = {
+  strict: new DrizzleQueryParser(),
+  vacuous: new DrizzleQueryParser({ everySemantics: "vacuous" }),
+}
+const parser = parsers.strict
+
+/**
+ * Drizzle RQB v2 equivalents of the Mongo operators used by CASL's default format.
+ * `$exists`, `$nor` and `$elemMatch` are rewritten separately.
+ */
+const MONGO_OPERATORS: Record<string, string> = {
+  $eq: "eq",
+  $ne: "ne",
+  $lt: "lt",
+  $lte: "lte",
+  $gt: "gt",
+  $gte: "gte",
+  $in: "in",
+  $nin: "notIn",
+  $all: "arrayContains",
+  $not: "NOT",
+  $and: "AND",
+  $or: "OR",
+}
+
+const UNSUPPORTED_MONGO_OPERATORS = new Set(["$size", "$mod", "$where"])
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null)
+
+/**
+ * Rewrites relation quantifiers (e.g. `{ comments: { none: filter } }`, produced by the
+ * relation helpers) into Drizzle RQB v2 relation filters. Drizzle correlates those with the
+ * aliased parent table through the relations config, including `through` tables.
+ */
+function quantifiedRelationFilter(
+  field: string,
+  quantifier: string,
+  filter: unknown,
+  everySemantics: EverySemantics
+): Record<string, unknown> {
+  switch (quantifier) {
+    case "none":
+    case "isNot": {
+      return { NOT: { [field]: filter } }
+    }
+    case "every": {
+      // No related record violates the filter, and with strict semantics at least one exists
+      const violated = { NOT: { [field]: { NOT: filter } } }
+      return everySemantics === "strict"
+        ? { AND: [{ [field]: true }, violated] }
+        : violated
+    }
+    default: {
+      return { [field]: filter }
+    }
+  }
+}
+
+/**
+ * Tells whether conditions contain RAW builder functions, e.g. of the relation helpers,
+ * which may refer to the parent table.
+ */
+function hasRawBuilder(conditions: unknown): boolean {
+  if (Array.isArray(conditions)) {
+    return conditions.some(hasRawBuilder)
+  }
+
+  if (!isPlainObject(conditions)) {
+    return false
+  }
+
+  return Object.entries(conditions).some(([key, value]) =>
+    key === "RAW" ? typeof value === "function" : hasRawBuilder(value)
+  )
+}
+
+// Schema and name of a table before aliasing, not part of Drizzle's public types
+const TableSchema = Symbol.for("drizzle:Schema")
+const OriginalName = Symbol.for("drizzle:OriginalName")
+
+const uniqueNameOf = (table: Table): string => {
+  const symbols = table as unknown as Record<symbol, string | undefined>
+  return `${symbols[TableSchema] ?? "public"}.${symbols[OriginalName]}`
+}
+
+/**
+ * Finds the key of a table, or of its alias in the generated query, within the relations config.
+ */
+function findTableKey(
+  relations: TablesRelationalConfig,
+  table: Table
+): string | undefined {
+  const uniqueName = uniqueNameOf(table)
+
+  return Object.keys(relations).find((key) => {
+    const candidate = relations[key]?.table as Table | undefined
+    return (
+      candidate === table ||
+      (candidate !== undefined && uniqueNameOf(candidate) === uniqueName)
+    )
+  })
+}
+
+/**
+ * Drizzle only passes the related table to RAW builders of relation filters. Given the
+ * relations config, relation conditions with RAW builders are compiled like in
+ * `accessibleSQL()` instead: the relation is resolved from the relations config and
+ * correlated with the aliased table of the query, which RAW builders receive as third argument.
+ */
+function compiledRelationFilter(
+  field: string,
+  query: Record<string, unknown>,
+  relations: TablesRelationalConfig,
+  everySemantics: EverySemantics
+): Record<string, unknown> {
+  // Parsed eagerly, so that invalid conditions throw right away
+  const condition = parsers[everySemantics].parse(query, { field })
+
+  return {
+    RAW: (table: Table) => {
+      const tableName = findTableKey(relations, table)
+
+      if (tableName === undefined) {
+        throw new Error(
+          `Table "${uniqueNameOf(table)}" is not part of the relations config`
+        )
+      }
+
+      return compileDrizzleQuery(condition, {
+        table,
+        tableName,
+        relations,
+        depth: 0,
+      })
+    },
+  }
+}
+
+/**
+ * RQB has no JSON path, regex and full-text search operators, so these conditions
+ * are compiled like in `accessibleSQL()` and passed as RAW filters.
+ */
+function compiledFieldFilter(
+  field: string,
+  query: Record<string, unknown>
+): Record<string, unknown> {
+  // Parsed eagerly, so that invalid conditions throw right away
+  const condition = parser.parse(query, { field })
+
+  return {
+    RAW: (table: Table) =>
+      compileDrizzleQuery(condition, {
+        table,
+        tableName: getTableName(table),
+        relations: {},
+        depth: 0,
+      }),
+  }
+}
+
+/**
+ * `semantics` belongs to the `every` condition of a relation (see `every()`),
+ * `mode` to a regex condition and `$options` to `$regex`.
+ */
+const isOptionOf = (key: string, query: Record<string, unknown>): boolean =>
+  (key === "semantics" && "every" in query) ||
+  (key === "mode" && "regex" in query) ||
+  (key === "$options" && "$regex" in query)
+
+const optionsOf = (operator: string, query: Record<string, unknown>) => {
+  if (operator === "regex" && "mode" in query) {
+    return { mode: query.mode }
+  }
+  if (operator === "$regex" && "$options" in query) {
+    return { $options: query.$options }
+  }
+  return {}
+}
+
+/**
+ * Moves the relation quantifiers and SQL-only conditions of a field query to
+ * `relationFilters` and returns the remaining operators of the field.
+ */
+function extractRelationFilters(
+  field: string,
+  query: Record<string, unknown>,
+  options: NormalizeOptions,
+  relationFilters: unknown[]
+): Record<string, unknown> {
+  const fieldQuery: Record<string, unknown> = {}
+
+  for (const [key, operand] of Object.entries(query)) {
+    // Passed with the condition they belong to
+    if (isOptionOf(key, query)) {
+      continue
+    }
+
+    // `$elemMatch` on a relation matches like `some`, parsed eagerly to reject array columns
+    if (key === "$elemMatch") {
+      parser.parse({ [key]: operand }, { field })
+    }
+    const operator = key === "$elemMatch" ? "some" : key
+
+    if (RELATION_QUANTIFIERS.has(operator)) {
+      const semantics = query.semantics as EverySemantics | undefined
+      const { everySemantics = "strict", relations } = options
+
+      if (relations && hasRawBuilder(operand)) {
+        relationFilters.push(
+          compiledRelationFilter(
+            field,
+            { [key]: operand, ...(semantics && { semantics }) },
+            relations,
+            everySemantics
+          )
+        )
+        continue
+      }
+
+      let conditions: unknown
+      try {
+        conditions = normalizeDrizzleConditions(operand, options)
+      } catch (error) {
+        throw withinPath(error, [key])
+      }
+      relationFilters.push(
+        quantifiedRelationFilter(
+          field,
+          operator,
+          conditions,
+          semantics ?? everySemantics
+        )
+      )
+    } else if (SQL_FIELD_OPERATORS.has(operator)) {
+      relationFilters.push(
+        compiledFieldFilter(field, {
+          [operator]: operand,
+          ...optionsOf(operator, query),
+        })
+      )
+    } else {
+      fieldQuery[operator] = operand
+    }
+  }
+
+  return fieldQuery
+}
+
+/**
+ * Rewrites a single key of CASL conditions into `result`, or into `relationFilters`
+ * for conditions which are appended to `AND`.
+ */
+function normalizeEntry(
+  key: string,
+  value: unknown,
+  options: NormalizeOptions,
+  result: Record<string, unknown>,
+  relationFilters: unknown[]
+) {
+  // Handle OR/AND keys - recurse into arrays
+  if (key === "OR" || key === "AND") {
+    result[key] = normalizeDrizzleConditions(value, options)
+    return
+  }
+
+  // Handle RAW SQL conditions - pass through as-is
+  if (key === "RAW") {
+    result[key] = value
+    return
+  }
+
+  // Handle operators with $ prefix - map Mongo operators to Drizzle's and recurse
+  if (key.startsWith("$")) {
+    if (UNSUPPORTED_MONGO_OPERATORS.has(key)) {
+      throw new ParsingQueryError(
+        `"${key}" is not supported because Drizzle has no equivalent operator`,
+        { code: "UNSUPPORTED_OPERATOR", operator: key }
+      )
+    }
+
+    if (key === "$exists") {
+      result[value ? "isNotNull" : "isNull"] = true
+      return
+    }
+
+    if (key === "$nor") {
+      // Appended to AND like relation filters, so that it can't clash with NOT
+      relationFilters.push({
+        NOT: { OR: normalizeDrizzleConditions(value, options) },
+      })
+      return
+    }
+
+    const normalizedKey = MONGO_OPERATORS[key] ?? key.slice(1)
+    result[normalizedKey] = normalizeDrizzleConditions(value, options)
+    return
+  }
+
+  if (!isPlainObject(value)) {
+    result[key] = value
+    return
+  }
+
+  // Relation quantifiers are moved to the parent level
+  const fieldQuery = extractRelationFilters(
+    key,
+    value,
+    options,
+    relationFilters
+  )
+
+  // Regular field - recurse into object values
+  if (Object.keys(fieldQuery).length > 0 || Object.keys(value).length === 0) {
+    result[key] = normalizeDrizzleConditions(fieldQuery, options)
+  }
+}
+
+/**
+ * Options of `normalizeDrizzleConditions()`.
+ * @internal
+ */
+export interface NormalizeOptions {
+  /**
+   * Semantics of `every` conditions without own `semantics`
+   * @default "strict"
+   */
+  everySemantics?: EverySemantics
+  /** Relations config, to pass the parent table to RAW builders of relation conditions */
+  relations?: TablesRelationalConfig
+}
+
+/**
+ * Rewrites CASL conditions into a Drizzle RQB v2 where input.
+ * Paths of `ParsingQueryError`s refer to the keys of `obj`.
+ * @internal
+ */
+export function normalizeDrizzleConditions(
+  obj: unknown,
+  options: NormalizeOptions = {}
+): unknown {
   if (typeof obj !== "object" || obj === null) {
     return obj
   }
 
   if (Array.isArray(obj)) {
-    return obj.map(normalizeDrizzleConditions)
+    return obj.map((entry, index) => {
+      try {
+        return normalizeDrizzleConditions(entry, options)
+      } catch (error) {
+        throw withinPath(error, [index])
+      }
+    })
   }
 
   const result: Record<string, unknown> = {}
+  const relationFilters: unknown[] = []
 
   for (const [key, value] of Object.entries(obj)) {
-    // Handle OR/AND keys - recurse into arrays
-    if (key === "OR" || key === "AND") {
-      result[key] = normalizeDrizzleConditions(value)
-      continue
+    try {
+      normalizeEntry(key, value, options, result, relationFilters)
+    } catch (error) {
+      throw withinPath(error, [key])
     }
+  }
 
-    // Handle RAW SQL conditions - pass through as-is
-    if (key === "RAW") {
-      result[key] = value
-      continue
-    }
+  if (relationFilters.length > 0) {
+    const existing = (result.AND as unknown[] | undefined) ?? []
+    result.AND = [...existing, ...relationFilters]
+  }
 
-    // Handle operators with $ prefix - remove the $ and recurse
-    if (key.startsWith("$")) {
-      const normalizedKey = key.slice(1)
-      result[normalizedKey] = normalizeDrizzleConditions(value)
-      continue
-    }
+  return result
+}
+
+/**
+ * Options for `accessibleBy()`.
+ */
+export interface AccessibleByOptions {
+  /**
+   * Behavior when no rule grants the action on a subject:
+   * - `"throw"` throws a `ForbiddenError` (default)
+   * - `"empty"` returns a where input matching no record, see `getAccessKind()`
+   * @default "throw"
+   */
+  onForbidden?: "throw" | "empty"
+  /**
+   * Relations config, required by relation conditions referencing the parent table
+   * (`parent` of the relation helpers and `raw()`). Defaults to the relations of the
+   * `strict` ability option.
+   */
+  relations?: TablesRelationalConfig
+}
+
+/**
+ * Kind of access described by a where input returned from `accessibleBy()`.
+ */
+export type AccessKind = "all" | "none" | "conditional"
 
-    // Regular field - recurse into object values
-    result[key] =
-      typeof value === "object" && value !== null && !Array.isArray(value)
-        ? normalizeDrizzleConditions(value)
-        : value
+const deniedFilters = new WeakSet<WhereInput>()
+
+/**
+ * Creates a where input which matches no record and composes with other filters.
+ */
+function createDeniedFilter(): WhereInput {
+  const where: WhereInput = { RAW: sql`false` }
+  deniedFilters.add(where)
+  return where
+}
+
+/**
+ * Tells whether a where input returned from `accessibleBy()` grants access to all records
+ * (no conditions), to none (`onForbidden: "empty"` without matching rules) or depends on conditions.
+ *
+ * @example
+ * ```ts
+ * import { accessibleBy, getAccessKind } from "@noxify/casl-drizzle"
+ *
+ * const where = accessibleBy(ability, "read", { onForbidden: "empty" }).posts
+ *
+ * if (getAccessKind(where) === "none") {
+ *   return []
+ * }
+ * ```
+ */
+export function getAccessKind(where: WhereInput): AccessKind {
+  if (deniedFilters.has(where)) {
+    return "none"
   }
 
-  return result
+  return Object.keys(where).length === 0 ? "all" : "conditional"
 }
 
-function buildConditionsForSubject(
+/**
+ * Creates the `ForbiddenError` thrown when no rule grants `action` on `subjectType`.
+ * @internal
+ */
+export function createForbiddenError(
   ability: AnyAbility,
   action: string,
   subjectType: string
-): WhereInput {
+): ForbiddenError<AnyAbility> {
+  const error = ForbiddenError.from(ability).setMessage(
+    `It's not allowed to run "${action}" on "${subjectType}"`
+  )
+  error.action = action
+  error.subjectType = subjectType
+  error.subject = subjectType
+  return error
+}
+
+/**
+ * Result of `analyzeAccess()`.
+ */
+export type AccessAnalysis<TRule = AbilityRule<AnyAbility>> =
+  | { kind: "all" }
+  | { kind: "none" }
+  | {
+      kind: "conditional"
+      /** Drizzle RQB v2 where input, like the one returned by `accessibleBy()` */
+      where: WhereInput
+      /** Rules whose conditions make up `where`, including inverted ones */
+      rules: TRule[]
+    }
+
+type AbilityRule<TAbility extends AnyAbility> = ReturnType<
+  TAbility["rulesFor"]
+>[number]
+
+/**
+ * Describes whether `action` on `subjectType` is granted unconditionally, denied,
+ * or depends on conditions. For conditional access, the where input and the rules
+ * contributing to it (including inverted ones) are returned.
+ * `options.relations` is required by relation conditions referencing the parent table.
+ *
+ * @example
+ * ```ts
+ * import { analyzeAccess } from "@noxify/casl-drizzle"
+ *
+ * const access = analyzeAccess(ability, "read", "posts")
+ *
+ * switch (access.kind) {
+ *   case "all":
+ *     return db.query.posts.findMany()
+ *   case "none":
+ *     return []
+ *   case "conditional":
+ *     return db.query.posts.findMany({ where: access.where })
+ * }
+ * ```
+ */
+export function analyzeAccess<TAbility extends AnyAbility>(
+  ability: TAbility,
+  action: string,
+  subjectType: string,
+  options: Pick<AccessibleByOptions, "relations"> = {}
+): AccessAnalysis<AbilityRule<TAbility>> {
   type Condition = Record<string, unknown>
-  const rules = ability.rulesFor(action, subjectType)
+  const rules: AbilityRule<TAbility>[] = []
   const query = rulesToCondition<AnyAbility, Condition, Condition>(
-    rules,
-    (rule) =>
-      (rule.inverted ? { NOT: rule.conditions } : rule.conditions) as Condition,
+    ability.rulesFor(action, subjectType),
+    (rule) => {
+      rules.push(rule)
+      return (
+        rule.inverted ? { NOT: rule.conditions } : rule.conditions
+      ) as Condition
+    },
     {
       and: (conditions) => ({ AND: conditions }),
       or: (conditions) => ({ OR: conditions }),
@@ -64,40 +538,118 @@ function buildConditionsForSubject(
   )
 
   if (query === null) {
-    const error = ForbiddenError.from(ability).setMessage(
-      `It's not allowed to run "${action}" on "${subjectType}"`
-    )
-    error.action = action
-    error.subjectType = subjectType
-    error.subject = subjectType
-    throw error
+    return { kind: "none" }
   }
 
-  const drizzleQuery = Object.create(null) as Record<string, unknown>
+  if (Object.keys(query).length === 0) {
+    return { kind: "all" }
+  }
 
   // If there's a single OR with one condition, unwrap it
-  if (query.OR && Array.isArray(query.OR) && query.OR.length === 1) {
-    const [singleCondition] = query.OR as Condition[]
-    Object.assign(drizzleQuery, singleCondition)
-  } else if (query.OR) {
-    drizzleQuery.OR = query.OR
+  const drizzleQuery =
+    Array.isArray(query.OR) && query.OR.length === 1
+      ? (query.OR[0] as Condition)
+      : query
+
+  const { everySemantics, strict } = getDrizzleAbilityOptions(ability)
+  const normalizeOptions: NormalizeOptions = {
+    everySemantics,
+    relations: options.relations ?? strict?.relations,
+  }
+  let where: WhereInput
+  try {
+    // Normalize all $ prefixes from operators to match Drizzle RQB v2 format
+    where = normalizeDrizzleConditions(
+      drizzleQuery,
+      normalizeOptions
+    ) as WhereInput
+  } catch (error) {
+    throw ruleErrorOf(ability, rules, error, normalizeOptions, {
+      action,
+      subjectType,
+    })
   }
 
-  // Normalize all $ prefixes from operators to match Drizzle RQB v2 format
-  return normalizeDrizzleConditions(drizzleQuery) as WhereInput
+  return { kind: "conditional", where, rules }
 }
 
-const proxyHandlers: ProxyHandler<{ _ability: AnyAbility; _action: string }> = {
+/**
+ * Finds the rule whose conditions can't be normalized, to report the error with
+ * the rule and the path within its conditions.
+ */
+function ruleErrorOf(
+  ability: AnyAbility,
+  rules: AbilityRule<AnyAbility>[],
+  error: unknown,
+  options: NormalizeOptions,
+  { action, subjectType }: { action: string; subjectType: string }
+): unknown {
+  if (!(error instanceof ParsingQueryError)) {
+    return error
+  }
+
+  for (const rule of rules) {
+    try {
+      normalizeDrizzleConditions(rule.conditions, options)
+    } catch (ruleError) {
+      return ParsingQueryError.inRule(ruleError as Error, {
+        ruleIndex: (ability.rules as unknown[]).indexOf(rule.origin),
+        subject: subjectType,
+        action,
+        rule: rule.origin,
+      })
+    }
+  }
+
+  return error
+}
+
+/**
+ * Resolves the permission conditions of a single subject into a Drizzle RQB v2 where input.
+ * Throws a `ForbiddenError` when no rule grants `action` on `subjectType`,
+ * unless `options.onForbidden` is `"empty"`.
+ * @internal
+ */
+export function buildConditionsForSubject(
+  ability: AnyAbility,
+  action: string,
+  subjectType: string,
+  options: AccessibleByOptions = {}
+): WhereInput {
+  const access = analyzeAccess(ability, action, subjectType, options)
+
+  if (access.kind === "none") {
+    if (options.onForbidden === "empty") {
+      return createDeniedFilter()
+    }
+
+    throw createForbiddenError(ability, action, subjectType)
+  }
+
+  return access.kind === "all" ? {} : access.where
+}
+
+const proxyHandlers: ProxyHandler<{
+  _ability: AnyAbility
+  _action: string
+  _options?: AccessibleByOptions
+}> = {
   get(target, prop) {
     if (prop === "ofType") {
       return (subjectType: string) =>
-        buildConditionsForSubject(target._ability, target._action, subjectType)
+        buildConditionsForSubject(
+          target._ability,
+          target._action,
+          subjectType,
+          target._options
+        )
     }
 
     return buildConditionsForSubject(
       target._ability,
       target._action,
-      prop as string
+      prop as string,
+      target._options
     )
   },
 }
@@ -135,23 +687,27 @@ export interface AccessibleByResult<TSubjectMap> {
 
 export function accessibleBy<TSubjectMap, TActions extends string = string>(
   ability: DrizzleAbility<TSubjectMap, TActions>,
-  action?: TActions
+  action?: TActions,
+  options?: AccessibleByOptions
 ): Record<Extract<keyof TSubjectMap, string>, WhereInput> &
   AccessibleByResult<TSubjectMap>
 // oxlint-disable-next-line typescript/no-explicit-any
 export function accessibleBy<TAbility extends Ability<any, any>>(
   ability: TAbility,
-  action?: TAbility["rules"][number]["action"]
+  action?: TAbility["rules"][number]["action"],
+  options?: AccessibleByOptions
 ): Record<string, WhereInput> & { ofType: (subject: string) => WhereInput }
 export function accessibleBy(
   // oxlint-disable-next-line typescript/no-explicit-any
   ability: Ability<any, any>,
-  action: string
+  action: string,
+  options?: AccessibleByOptions
 ): Record<string, WhereInput> {
   return new Proxy(
     {
       _ability: ability,
       _action: action,
+      _options: options,
     },
     proxyHandlers
   ) as unknown as Record<string, WhereInput>
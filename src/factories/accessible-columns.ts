@@ -0,0 +1,91 @@
+import type { AnyAbility } from "@casl/ability"
+import type { Table, View } from "drizzle-orm"
+import { getColumns } from "drizzle-orm"
+
+import { createForbiddenError } from "./accessible-by"
+
+/**
+ * Drizzle `columns` projection returned by `accessibleColumns()`.
+ */
+export type ColumnsSelection<TTable extends Table> = Partial<
+  Record<Extract<keyof TTable["_"]["columns"], string>, true>
+>
+
+/**
+ * Resolves the column keys permitted for every row the rules of `action` give access to.
+ * Rules without fields grant (or, if inverted, revoke) every column.
+ *
+ * The first rule of a column in priority order decides, like in `ability.can()`. A
+ * conditional rule only decides for the rows it matches, so a conditional grant counts
+ * when every `can` rule grants the column, and a conditional `cannot` with fields revokes
+ * it. Conditional `cannot` rules without fields exclude rows instead of columns.
+ * @internal
+ */
+export function permittedColumnsOf(
+  ability: AnyAbility,
+  action: string,
+  subjectType: string,
+  table: Table | View
+): string[] {
+  const rules = ability.possibleRulesFor(action, subjectType)
+  const grants = rules.filter((rule) => !rule.inverted)
+
+  const isPermitted = (columnName: string) => {
+    for (const rule of rules) {
+      const excludesRows = rule.inverted && !rule.fields && rule.conditions
+      if (!excludesRows && rule.matchesField(columnName)) {
+        if (rule.inverted) {
+          return false
+        }
+        if (!rule.conditions) {
+          return true
+        }
+      }
+    }
+
+    return (
+      grants.length > 0 && grants.every((rule) => rule.matchesField(columnName))
+    )
+  }
+
+  // Keep the column order of the table definition
+  return Object.keys(getColumns(table)).filter(isPermitted)
+}
+
+/**
+ * Builds a Drizzle `columns` projection from the field-level rules of `action` on `subject`.
+ *
+ * Field patterns (e.g. `"*"`, `"address.*"`) are resolved against the real column keys
+ * of `table`, so only columns the ability permits are selected. The projection applies to
+ * every row, so it only contains columns permitted for all rows: with
+ * `can("read", "posts", ["content"], { authorId: user.id })` next to `can("read", "posts", ["id"])`,
+ * `content` is not selected.
+ * Throws a `ForbiddenError` when no column is permitted.
+ *
+ * @example
+ * ```ts
+ * import { accessibleColumns } from "@noxify/casl-drizzle"
+ *
+ * // can("read", "users", ["id", "name"])
+ * const users = await db.query.users.findMany({
+ *   columns: accessibleColumns(ability, "read", "users", schema.users),
+ * })
+ * // => columns: { id: true, name: true }
+ * ```
+ */
+export function accessibleColumns<TTable extends Table>(
+  ability: AnyAbility,
+  action: string,
+  subject: string,
+  table: TTable
+): ColumnsSelection<TTable> {
+  const permittedColumns = permittedColumnsOf(ability, action, subject, table)
+
+  if (permittedColumns.length === 0) {
+    throw createForbiddenError(ability, action, subject)
+  }
+
+  return Object.fromEntries(
+    permittedColumns.map((columnName) => [columnName, true])
+  ) as ColumnsSelection<TTable>
+}
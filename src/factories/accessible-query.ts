@@ -0,0 +1,229 @@
+import type { AnyAbility } from "@casl/ability"
+import type {
+  DBQueryConfig,
+  TablesRelationalConfig,
+} from "drizzle-orm/relations"
+
+import type { WhereInput } from "../types"
+import {
+  buildConditionsForSubject,
+  createForbiddenError,
+} from "./accessible-by"
+import { permittedColumnsOf } from "./accessible-columns"
+
+/**
+ * Options for `accessibleQuery()`.
+ */
+export interface AccessibleQueryOptions<TTableName extends string = string> {
+  /**
+   * Maps table keys of the relations config to CASL subject names when they differ.
+   * Table keys without an entry are used as subject names directly.
+   */
+  subjects?: Partial<Record<TTableName, string>>
+  /**
+   * Overrides the action for nested relations, keyed by relation path
+   * (e.g. `"comments"` or `"comments.author"`).
+   * Relations without an entry are scoped with the root action.
+   */
+  actions?: Record<string, string>
+  /**
+   * Restricts the selected `columns` of the root table and every nested relation
+   * to the fields permitted by field-level rules (see `accessibleColumns()`).
+   * Columns requested by the caller are intersected with the permitted ones.
+   * @default false
+   */
+  columns?: boolean
+}
+
+interface ScopeContext {
+  ability: AnyAbility
+  action: string
+  relations: TablesRelationalConfig
+  subjects: Partial<Record<string, string>>
+  actions: Record<string, string>
+  columns: boolean
+}
+
+type RelationalQueryConfig = Record<string, unknown> & {
+  where?: unknown
+  columns?: Record<string, boolean | undefined>
+  with?: Record<string, unknown>
+}
+
+/**
+ * Combines the permission conditions with the caller's where input.
+ * The permission conditions are always applied, the caller can only narrow them further.
+ */
+function mergeWhere(accessWhere: WhereInput, where: unknown): unknown {
+  if (where === undefined) {
+    return accessWhere
+  }
+
+  if (Object.keys(accessWhere).length === 0) {
+    return where
+  }
+
+  return { AND: [accessWhere, where] }
+}
+
+/**
+ * Intersects the caller's `columns` selection with the permitted columns.
+ * Follows Drizzle's semantics: any `true` entry selects only those columns,
+ * otherwise `false` entries exclude columns from the full set.
+ */
+function mergeColumns(
+  permittedColumns: string[],
+  columns: Record<string, boolean | undefined> | undefined
+): Record<string, true> {
+  const selection = columns ?? {}
+  const isIncludeMode = Object.values(selection).some((value) => value === true)
+  const selectedColumns = permittedColumns.filter((columnName) =>
+    isIncludeMode
+      ? selection[columnName] === true
+      : selection[columnName] !== false
+  )
+
+  return Object.fromEntries(
+    selectedColumns.map((columnName) => [columnName, true])
+  ) as Record<string, true>
+}
+
+function scopeWith(
+  context: ScopeContext,
+  tableName: string,
+  withConfig: Record<string, unknown>,
+  parentPath: string
+): Record<string, unknown> {
+  const tableRelations = context.relations[tableName]?.relations ?? {}
+  const result: Record<string, unknown> = {}
+
+  for (const [relationName, value] of Object.entries(withConfig)) {
+    const relation = tableRelations[relationName]
+
+    // Disabled or unknown relations are passed through and left to Drizzle
+    if (!value || relation === undefined) {
+      result[relationName] = value
+      continue
+    }
+
+    const path = parentPath ? `${parentPath}.${relationName}` : relationName
+
+    result[relationName] = scopeQueryConfig(
+      context,
+      relation.targetTableName,
+      value === true ? {} : (value as RelationalQueryConfig),
+      context.actions[path] ?? context.action,
+      path
+    )
+  }
+
+  return result
+}
+
+function scopeQueryConfig(
+  context: ScopeContext,
+  tableName: string,
+  config: RelationalQueryConfig,
+  action: string,
+  path: string
+): RelationalQueryConfig {
+  const subjectType = context.subjects[tableName] ?? tableName
+  const accessWhere = buildConditionsForSubject(
+    context.ability,
+    action,
+    subjectType,
+    { relations: context.relations }
+  )
+  const scoped: RelationalQueryConfig = {
+    ...config,
+    where: mergeWhere(accessWhere, config.where),
+  }
+
+  const tableConfig = context.relations[tableName]
+
+  if (context.columns && tableConfig) {
+    const permittedColumns = permittedColumnsOf(
+      context.ability,
+      action,
+      subjectType,
+      tableConfig.table
+    )
+
+    if (permittedColumns.length === 0) {
+      throw createForbiddenError(context.ability, action, subjectType)
+    }
+
+    scoped.columns = mergeColumns(permittedColumns, config.columns)
+  }
+
+  if (config.with) {
+    scoped.with = scopeWith(context, tableName, config.with, path)
+  }
+
+  return scoped
+}
+
+/**
+ * Scopes a relational query config, including every relation loaded via `with`,
+ * to the records permitted by the ability.
+ *
+ * The root table and each related table receive `where: accessibleBy(ability, action).ofType(subject)`,
+ * AND-ed with the `where` passed by the caller. Related tables are resolved through the
+ * `defineRelations` config, so whole object graphs come back permission-filtered.
+ *
+ * With `options.columns`, every level additionally selects only the permitted `columns`,
+ * so row filter and field-level projection are applied in a single call.
+ *
+ * Like `accessibleBy`, a subject without any matching rule throws a `ForbiddenError`,
+ * also when it is only reached through a nested relation.
+ *
+ * @example
+ * ```ts
+ * import { accessibleQuery } from "@noxify/casl-drizzle"
+ *
+ * const posts = await db.query.posts.findMany(
+ *   accessibleQuery(ability, "read", relations, "posts", {
+ *     with: { comments: true, author: true },
+ *   })
+ * )
+ *
+ * // Also project the permitted columns of posts, comments and authors
+ * accessibleQuery(ability, "read", relations, "posts", { with: { comments: true } }, {
+ *   columns: true,
+ * })
+ *
+ * // Use another action for a nested relation
+ * accessibleQuery(ability, "update", relations, "posts", { with: { author: true } }, {
+ *   actions: { author: "read" },
+ * })
+ * ```
+ */
+export function accessibleQuery<
+  TSchema extends TablesRelationalConfig,
+  TTableName extends Extract<keyof TSchema, string>,
+  TConfig extends DBQueryConfig<"many", TSchema, TSchema[TTableName]>,
+>(
+  ability: AnyAbility,
+  action: string,
+  relations: TSchema,
+  tableName: TTableName,
+  config?: TConfig,
+  options: AccessibleQueryOptions<Extract<keyof TSchema, string>> = {}
+): TConfig {
+  const context: ScopeContext = {
+    ability,
+    action,
+    relations,
+    subjects: options.subjects ?? {},
+    actions: options.actions ?? {},
+    columns: options.columns ?? false,
+  }
+
+  return scopeQueryConfig(
+    context,
+    tableName,
+    (config ?? {}) as RelationalQueryConfig,
+    action,
+    ""
+  ) as TConfig
+}
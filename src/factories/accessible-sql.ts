@@ -0,0 +1,83 @@
+import type { AnyAbility } from "@casl/ability"
+import { rulesToAST } from "@casl/ability/extra"
+import type { SQL, Table, TablesRelationalConfig } from "drizzle-orm"
+
+import { compileDrizzleQuery } from "../query-compiler"
+import { createForbiddenError } from "./accessible-by"
+
+/**
+ * Options for `accessibleSQL()`.
+ */
+export interface AccessibleSQLOptions {
+  /**
+   * CASL subject name of `table`.
+   * Defaults to the key of `table` within the relations config.
+   */
+  subject?: string
+}
+
+/**
+ * Returns the key of `table` within the relations config.
+ * @internal
+ */
+export function findTableName(
+  relations: TablesRelationalConfig,
+  table: Table
+): string | undefined {
+  return Object.keys(relations).find(
+    (tableName) => relations[tableName]?.table === table
+  )
+}
+
+/**
+ * Compiles the permission conditions of `action` on `table` into a Drizzle `SQL` expression
+ * for the core query builder (`db.select()`, `db.update()`, `db.delete()`).
+ *
+ * Conditions are compiled against the table's real columns. Relation conditions
+ * (`is`, `some`, `every`, `none` and nested relation objects) become correlated
+ * `EXISTS` subqueries derived from the relations config.
+ *
+ * Like `accessibleBy`, throws a `ForbiddenError` when no rule grants `action` on the subject.
+ *
+ * @example
+ * ```ts
+ * import { accessibleSQL } from "@noxify/casl-drizzle"
+ * import { and, eq } from "drizzle-orm"
+ *
+ * await db
+ *   .update(posts)
+ *   .set({ published: true })
+ *   .where(and(eq(posts.id, postId), accessibleSQL(ability, "update", posts, relations)))
+ *
+ * await db.select().from(posts).where(accessibleSQL(ability, "read", posts, relations))
+ * ```
+ */
+export function accessibleSQL(
+  ability: AnyAbility,
+  action: string,
+  table: Table,
+  relations: TablesRelationalConfig,
+  options: AccessibleSQLOptions = {}
+): SQL {
+  const tableName = findTableName(relations, table)
+
+  if (tableName === undefined) {
+    throw new Error(
+      "accessibleSQL() expects a table that is part of the relations config"
+    )
+  }
+
+  const subjectType = options.subject ?? tableName
+  const condition = rulesToAST(ability, action, subjectType)
+
+  if (condition === null) {
+    throw createForbiddenError(ability, action, subjectType)
+  }
+
+  return compileDrizzleQuery(condition, {
+    table,
+    tableName,
+    relations,
+    depth: 0,
+  })
+}
@@ -0,0 +1,341 @@
+import type { AnyAbility } from "@casl/ability"
+import type { Condition } from "@ucast/core"
+import { CompoundCondition, FieldCondition } from "@ucast/core"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
+
+import { ParsingQueryError } from "../query-error"
+import { createDrizzleInterpreter } from "../query-interpreter"
+import { getRawPredicate } from "../raw-condition"
+import { createForbiddenError } from "./accessible-by"
+import { getDrizzleAbilityOptions } from "./create-ability"
+
+/**
+ * Options for `assertCanCreate()` and `filterInsertable()`.
+ */
+export interface AssertCanCreateOptions {
+  /**
+   * Action checked against the ability.
+   * @default "create"
+   */
+  action?: string
+  /**
+   * Relations config, to recognize conditions on relations without quantifier like
+   * `{ author: { name: "Alice" } }`. Defaults to the relations of the `strict` ability option.
+   */
+  relations?: TablesRelationalConfig
+}
+
+type AnyRule = ReturnType<AnyAbility["rulesFor"]>[number]
+
+type Interpret = (condition: Condition, object: unknown) => boolean
+
+interface UncheckableCondition {
+  operator: string
+  /** Relation of a condition without quantifier, e.g. `{ author: { name: "Alice" } }` */
+  relation?: string
+}
+
+const RELATION_OPERATORS = new Set(["some", "every", "is"])
+
+/**
+ * Names of the relations of the subject's table, known when the relations config is
+ * passed or the ability was created with `strict: { relations }`.
+ */
+function relationNamesOf(
+  ability: AnyAbility,
+  subjectType: string,
+  relations: TablesRelationalConfig | undefined
+) {
+  const { strict } = getDrizzleAbilityOptions(ability)
+  const relationsConfig = relations ?? strict?.relations ?? {}
+  const tableName = Object.keys(relationsConfig).find(
+    (name) => (strict?.subjects?.[name] ?? name) === subjectType
+  )
+  const tableConfig = tableName ? relationsConfig[tableName] : undefined
+
+  return new Set(Object.keys(tableConfig?.relations ?? {}))
+}
+
+/**
+ * Returns the first condition that can't be evaluated against a row which doesn't exist yet.
+ * Relations without quantifier are parsed like `eq`, so they are recognized by the relations
+ * of the table. Object values of `eq` may as well compare a `json` column.
+ */
+function findUncheckableCondition(
+  condition: Condition,
+  relationNames: ReadonlySet<string>
+): UncheckableCondition | undefined {
+  if (condition.operator === "RAW" && !getRawPredicate(condition.value)) {
+    return { operator: "RAW" }
+  }
+
+  if (RELATION_OPERATORS.has(condition.operator)) {
+    return { operator: condition.operator }
+  }
+
+  if (
+    condition instanceof FieldCondition &&
+    relationNames.has(condition.field)
+  ) {
+    return { operator: condition.operator, relation: condition.field }
+  }
+
+  if (condition instanceof CompoundCondition) {
+    for (const subCondition of condition.value) {
+      const uncheckable = findUncheckableCondition(subCondition, relationNames)
+      if (uncheckable) {
+        return uncheckable
+      }
+    }
+  }
+
+  return undefined
+}
+
+function describeUncheckable({ operator, relation }: UncheckableCondition) {
+  if (relation) {
+    return `a relation condition on "${relation}"`
+  }
+  return operator === "RAW"
+    ? "a RAW (without predicate) condition"
+    : `a relation ("${operator}") condition`
+}
+
+function ruleIndexOf(ability: AnyAbility, rule: AnyRule): number {
+  return (ability.rules as unknown[]).indexOf(rule.origin)
+}
+
+function assertCheckable(
+  ability: AnyAbility,
+  rule: AnyRule,
+  action: string,
+  subjectType: string,
+  relationNames: ReadonlySet<string>
+) {
+  const uncheckable = rule.ast
+    ? findUncheckableCondition(rule.ast as Condition, relationNames)
+    : undefined
+
+  if (uncheckable) {
+    const ruleIndex = ruleIndexOf(ability, rule)
+    throw new ParsingQueryError(
+      `Rule #${ruleIndex} for "${action}" on "${subjectType}" uses ${describeUncheckable(uncheckable)}, which can't be checked before the row exists`,
+      {
+        code: "UNSUPPORTED_IN_MEMORY",
+        operator: uncheckable.operator,
+        ruleIndex,
+        subject: subjectType,
+        action,
+        rule: rule.origin,
+      }
+    )
+  }
+}
+
+/**
+ * Mirrors `Ability.relevantRuleFor()`, but rejects rules whose conditions
+ * can't be evaluated in JavaScript instead of treating them as matching.
+ */
+function relevantRuleFor(
+  ability: AnyAbility,
+  action: string,
+  subjectType: string,
+  values: Record<string, unknown>,
+  field: string | undefined,
+  relationNames: ReadonlySet<string>
+): AnyRule | null {
+  for (const rule of ability.rulesFor(action, subjectType, field)) {
+    if (!rule.conditions) {
+      return rule
+    }
+
+    assertCheckable(ability, rule, action, subjectType, relationNames)
+
+    if (rule.matchesConditions(values)) {
+      return rule
+    }
+  }
+
+  return null
+}
+
+/**
+ * Returns the fields of the top-level conditions of `rule` that `values` don't satisfy.
+ */
+function failedFieldsOf(
+  interpret: Interpret,
+  rule: AnyRule,
+  values: Record<string, unknown>
+) {
+  if (!rule.ast) {
+    return []
+  }
+
+  const conditions =
+    rule.ast instanceof CompoundCondition && rule.ast.operator === "and"
+      ? rule.ast.value
+      : [rule.ast]
+
+  return conditions
+    .filter((condition) => !interpret(condition, values))
+    .map((condition) =>
+      condition instanceof FieldCondition ? condition.field : condition.operator
+    )
+}
+
+/**
+ * Checks `values` against the rules of a single field (or the whole row when `field` is undefined).
+ * Returns the reason of the failure or `null` when the check passed.
+ */
+function checkField(
+  ability: AnyAbility,
+  action: string,
+  subjectType: string,
+  values: Record<string, unknown>,
+  field: string | undefined,
+  relationNames: ReadonlySet<string>
+): { field?: string; message: string } | null {
+  const rule = relevantRuleFor(
+    ability,
+    action,
+    subjectType,
+    values,
+    field,
+    relationNames
+  )
+  const target = field ? `field "${field}"` : "the row"
+
+  if (rule && !rule.inverted) {
+    return null
+  }
+
+  if (rule) {
+    const reason = rule.reason ? ` (${rule.reason})` : ""
+    return {
+      field,
+      message: `${target} is denied by rule #${ruleIndexOf(ability, rule)}${reason}`,
+    }
+  }
+
+  const interpret = createDrizzleInterpreter(
+    getDrizzleAbilityOptions(ability)
+  ) as Interpret
+  const failures = ability
+    .rulesFor(action, subjectType, field)
+    .filter((candidate) => !candidate.inverted)
+    .map((candidate) => ({
+      index: ruleIndexOf(ability, candidate),
+      fields: failedFieldsOf(interpret, candidate, values),
+    }))
+
+  if (failures.length === 0) {
+    return { field, message: `no rule permits ${target}` }
+  }
+
+  return {
+    field: field ?? failures[0]?.fields[0],
+    message: failures
+      .map(
+        ({ index, fields }) =>
+          `${fields.map((name) => `"${name}"`).join(", ")} does not satisfy rule #${index}`
+      )
+      .join("; "),
+  }
+}
+
+/**
+ * Checks the whole row first, so that rules without fields are reported for the row,
+ * and afterwards every field of the payload against field-level rules.
+ */
+function findCreateViolation(
+  ability: AnyAbility,
+  action: string,
+  subjectType: string,
+  values: Record<string, unknown>,
+  relations: TablesRelationalConfig | undefined
+) {
+  const relationNames = relationNamesOf(ability, subjectType, relations)
+
+  for (const field of [undefined, ...Object.keys(values)]) {
+    const violation = checkField(
+      ability,
+      action,
+      subjectType,
+      values,
+      field,
+      relationNames
+    )
+    if (violation) {
+      return violation
+    }
+  }
+
+  return null
+}
+
+/**
+ * Checks an insert payload against the `create` rules of `subject` before it is written.
+ *
+ * The candidate row is evaluated in memory, so rules like
+ * `can("create", "posts", { authorId: user.id })` can be enforced on inserts. Field-level rules
+ * are checked for every key of `values`.
+ *
+ * Throws a `ForbiddenError` naming the failing field and rule when the row is not permitted,
+ * and a `ParsingQueryError` when a relevant rule depends on relation conditions or `RAW`
+ * conditions without predicate (see `raw()`), which can't be checked before the row exists.
+ *
+ * @example
+ * ```ts
+ * import { assertCanCreate } from "@noxify/casl-drizzle"
+ *
+ * assertCanCreate(ability, "posts", values)
+ * await db.insert(posts).values(values)
+ * ```
+ */
+export function assertCanCreate(
+  ability: AnyAbility,
+  subject: string,
+  values: Record<string, unknown>,
+  options: AssertCanCreateOptions = {}
+): void {
+  const action = options.action ?? "create"
+  const violation = findCreateViolation(
+    ability,
+    action,
+    subject,
+    values,
+    options.relations
+  )
+
+  if (violation) {
+    const error = createForbiddenError(ability, action, subject).setMessage(
+      `It's not allowed to run "${action}" on "${subject}": ${violation.message}`
+    )
+    error.field = violation.field
+    throw error
+  }
+}
+
+/**
+ * Returns the insert payloads the ability permits to create.
+ * Like `assertCanCreate()`, throws a `ParsingQueryError` for rules that can't be checked in memory.
+ *
+ * @example
+ * ```ts
+ * import { filterInsertable } from "@noxify/casl-drizzle"
+ *
+ * await db.insert(posts).values(filterInsertable(ability, "posts", rows))
+ * ```
+ */
+export function filterInsertable<TValues extends Record<string, unknown>>(
+  ability: AnyAbility,
+  subject: string,
+  rows: TValues[],
+  options: AssertCanCreateOptions = {}
+): TValues[] {
+  const action = options.action ?? "create"
+  return rows.filter(
+    (values) =>
+      !findCreateViolation(ability, action, subject, values, options.relations)
+  )
+}
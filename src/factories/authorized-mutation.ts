@@ -0,0 +1,178 @@
+import type { AnyAbility } from "@casl/ability"
+import type {
+  InferInsertModel,
+  InferSelectModel,
+  SQL,
+  Table,
+  TablesRelationalConfig,
+} from "drizzle-orm"
+import { and, sql } from "drizzle-orm"
+
+import { NotFoundError } from "../not-found-error"
+import { createForbiddenError } from "./accessible-by"
+import { accessibleSQL, findTableName } from "./accessible-sql"
+
+/**
+ * Options for `authorizedUpdate()` and `authorizedDelete()`.
+ */
+export interface AuthorizedMutationOptions {
+  /**
+   * Action checked against the ability.
+   * Defaults to `"update"` for `authorizedUpdate()` and `"delete"` for `authorizedDelete()`.
+   */
+  action?: string
+  /**
+   * CASL subject name of the table.
+   * Defaults to the key of the table within the relations config of `db`.
+   */
+  subject?: string
+}
+
+interface ReturningQuery {
+  returning: () => PromiseLike<unknown>
+}
+
+interface FilterableQuery<TResult> {
+  where: (where: SQL | undefined) => TResult
+}
+
+/**
+ * Minimal shape of a Drizzle database (or transaction) supporting `returning()`,
+ * e.g. PostgreSQL and SQLite clients.
+ */
+interface MutationDatabase {
+  _: { relations: TablesRelationalConfig }
+  transaction: <T>(
+    transaction: (tx: MutationDatabase) => Promise<T>
+  ) => Promise<T>
+  update: (table: never) => {
+    set: (values: never) => FilterableQuery<ReturningQuery>
+  }
+  delete: (table: never) => FilterableQuery<ReturningQuery>
+  // `never` parameters accept the dialect-specific (generic) query builder signatures
+  select: (fields: never) => {
+    from: (table: never) => FilterableQuery<{
+      limit: (limit: number) => PromiseLike<unknown>
+    }>
+  }
+}
+
+/**
+ * Runs a permission-scoped mutation inside a transaction and explains empty results.
+ * When no row was affected, probes whether `where` matches any row at all to decide
+ * between `NotFoundError` (nothing to mutate) and `ForbiddenError` (not permitted).
+ */
+function runAuthorizedMutation<TRow>(
+  db: MutationDatabase,
+  ability: AnyAbility,
+  table: Table,
+  where: SQL | undefined,
+  action: string,
+  subject: string | undefined,
+  mutate: (
+    tx: MutationDatabase,
+    scopedWhere: SQL | undefined
+  ) => PromiseLike<unknown>
+): Promise<TRow[]> {
+  return db.transaction(async (tx) => {
+    const { relations } = tx._
+    const permission = accessibleSQL(ability, action, table, relations, {
+      subject,
+    })
+    const rows = (await mutate(tx, and(where, permission))) as TRow[]
+
+    if (rows.length > 0) {
+      return rows
+    }
+
+    const subjectType = subject ?? findTableName(relations, table) ?? ""
+    const existing = (await tx
+      .select({ found: sql`1` } as never)
+      .from(table as never)
+      .where(where)
+      .limit(1)) as unknown[]
+
+    if (existing.length === 0) {
+      throw NotFoundError.forSubject(subjectType)
+    }
+
+    throw createForbiddenError(ability, action, subjectType)
+  })
+}
+
+/**
+ * Updates the rows matching `where` that the ability permits to update and returns them.
+ *
+ * The update runs with `returning()` inside a transaction. If no row was updated, a follow-up
+ * existence probe decides whether a `NotFoundError` (no row matches `where`) or a
+ * `ForbiddenError` with `action`/`subjectType` (rows exist, but are not permitted) is thrown.
+ *
+ * @example
+ * ```ts
+ * import { authorizedUpdate } from "@noxify/casl-drizzle"
+ * import { eq } from "drizzle-orm"
+ *
+ * const [post] = await authorizedUpdate(db, ability, posts, eq(posts.id, postId), {
+ *   title: "Updated",
+ * })
+ * ```
+ */
+export function authorizedUpdate<TTable extends Table>(
+  db: MutationDatabase,
+  ability: AnyAbility,
+  table: TTable,
+  where: SQL | undefined,
+  values: Partial<InferInsertModel<TTable>>,
+  options: AuthorizedMutationOptions = {}
+): Promise<InferSelectModel<TTable>[]> {
+  return runAuthorizedMutation(
+    db,
+    ability,
+    table,
+    where,
+    options.action ?? "update",
+    options.subject,
+    (tx, scopedWhere) =>
+      tx
+        .update(table as never)
+        .set(values as never)
+        .where(scopedWhere)
+        .returning()
+  )
+}
+
+/**
+ * Deletes the rows matching `where` that the ability permits to delete and returns them.
+ *
+ * Behaves like `authorizedUpdate()`: if no row was deleted, either a `NotFoundError`
+ * or a `ForbiddenError` is thrown.
+ *
+ * @example
+ * ```ts
+ * import { authorizedDelete } from "@noxify/casl-drizzle"
+ * import { eq } from "drizzle-orm"
+ *
+ * await authorizedDelete(db, ability, posts, eq(posts.id, postId))
+ * ```
+ */
+export function authorizedDelete<TTable extends Table>(
+  db: MutationDatabase,
+  ability: AnyAbility,
+  table: TTable,
+  where: SQL | undefined,
+  options: AuthorizedMutationOptions = {}
+): Promise<InferSelectModel<TTable>[]> {
+  return runAuthorizedMutation(
+    db,
+    ability,
+    table,
+    where,
+    options.action ?? "delete",
+    options.subject,
+    (tx, scopedWhere) =>
+      tx
+        .delete(table as never)
+        .where(scopedWhere)
+        .returning()
+  )
+}
@@ -0,0 +1,387 @@
+import type { Column } from "drizzle-orm"
+import { getColumns } from "drizzle-orm"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
+
+type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null"
+
+/**
+ * JSON Schema (draft 2020-12), limited to the keywords used by `conditionsJsonSchema()`.
+ */
+export interface JsonSchema {
+  $schema?: string
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  title?: string
+  description?: string
+  type?: JsonSchemaType | JsonSchemaType[]
+  enum?: unknown[]
+  format?: string
+  pattern?: string
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: boolean
+  required?: string[]
+  minProperties?: number
+  items?: JsonSchema
+  anyOf?: JsonSchema[]
+}
+
+type OperatorSchemas = Record<string, JsonSchema>
+
+const COMPARABLE_TYPES = new Set(["number", "bigint", "string"])
+const TEXT_TYPES = new Set(["string", "string enum"])
+const MANY_QUANTIFIERS = ["some", "every", "none", "$elemMatch"]
+const ONE_QUANTIFIERS = ["is", "isNot"]
+
+/**
+ * Quantifiers of the relation, depending on whether it's a many or one relation.
+ * @internal
+ */
+export const relationQuantifiers = (
+  relation: TablesRelationalConfig[string]["relations"][string]
+): string[] =>
+  relation.relationType === "many" ? MANY_QUANTIFIERS : ONE_QUANTIFIERS
+
+/**
+ * Keys combining conditions, `NOT` takes conditions and the others a list of conditions.
+ * @internal
+ */
+export const COMPOUND_KEYS = ["NOT", "AND", "OR", "$and", "$or", "$nor"]
+
+// Mongo operators and further operators of the parser, with the operand of their RQB counterpart
+const OPERATOR_ALIASES: Record<string, string> = {
+  $eq: "eq",
+  $ne: "ne",
+  $lt: "lt",
+  $lte: "lte",
+  $gt: "gt",
+  $gte: "gte",
+  $in: "in",
+  $nin: "notIn",
+  $all: "arrayContains",
+  $regex: "regex",
+  hasEvery: "arrayContains",
+  hasSome: "arrayOverlaps",
+  startsWith: "like",
+  endsWith: "like",
+  contains: "like",
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` })
+
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: "array", items })
+
+const BOOLEAN: JsonSchema = { type: "boolean" }
+const STRING: JsonSchema = { type: "string" }
+const NULL: JsonSchema = { type: "null" }
+
+const JSON_PATH_QUERY: JsonSchema = {
+  type: "object",
+  properties: {
+    path: { anyOf: [STRING, arrayOf(STRING)] },
+    eq: {},
+    ne: {},
+    gt: { type: ["string", "number"] },
+    gte: { type: ["string", "number"] },
+    lt: { type: ["string", "number"] },
+    lte: { type: ["string", "number"] },
+    contains: {},
+    hasKey: STRING,
+  },
+  additionalProperties: false,
+  anyOf: ["eq", "ne", "gt", "gte", "lt", "lte", "contains", "hasKey"].map(
+    (operator) => ({ required: [operator] })
+  ),
+}
+
+/**
+ * Schema of a single value of the column, without array dimensions.
+ */
+function valueSchema(column: Column): JsonSchema {
+  const [type, constraint] = column.dataType.split(" ")
+
+  switch (type) {
+    case "string": {
+      if (column.enumValues?.length) {
+        return { type: "string", enum: [...column.enumValues] }
+      }
+      return constraint === "uuid" ? { type: "string", format: "uuid" } : STRING
+    }
+    case "number": {
+      return { type: constraint?.startsWith("int") ? "integer" : "number" }
+    }
+    case "bigint": {
+      // Values beyond Number.MAX_SAFE_INTEGER can only be stored as strings
+      return {
+        anyOf: [{ type: "integer" }, { type: "string", pattern: "^-?\\d+$" }],
+      }
+    }
+    case "boolean": {
+      return BOOLEAN
+    }
+    case "object": {
+      return constraint === "date"
+        ? { type: "string", format: "date-time" }
+        : {}
+    }
+    default: {
+      return {}
+    }
+  }
+}
+
+const nullableOf = (column: Column, value: JsonSchema): JsonSchema =>
+  column.notNull ? value : { anyOf: [value, NULL] }
+
+const isArrayColumn = (column: Column) =>
+  ((column as { dimensions?: number }).dimensions ?? 0) > 0
+
+/**
+ * Schema of the values of the column, including array dimensions.
+ * @internal
+ */
+export const columnValueSchema = (column: Column): JsonSchema =>
+  isArrayColumn(column) ? arrayOf(valueSchema(column)) : valueSchema(column)
+
+/**
+ * Whether conditions on the column can only use operators, as its values are
+ * not compared directly (`json`, `jsonb` and `tsvector` columns).
+ * @internal
+ */
+export const isOperatorOnlyColumn = (column: Column) =>
+  column.dataType === "object json" || column.getSQLType() === "tsvector"
+
+/**
+ * Operators valid for the data type of the column, mirroring the operators Drizzle
+ * supports for it (e.g. `like` only on text, `arrayContains` only on arrays), and
+ * their aliases like the Mongo operators.
+ * @internal
+ */
+export function columnOperators(column: Column): OperatorSchemas {
+  const operators = rqbOperators(column)
+
+  for (const [alias, operator] of Object.entries(OPERATOR_ALIASES)) {
+    if (Object.hasOwn(operators, operator)) {
+      operators[alias] = operators[operator] as JsonSchema
+    }
+  }
+
+  return operators
+}
+
+function rqbOperators(column: Column): OperatorSchemas {
+  const value = columnValueSchema(column)
+  const nullable = nullableOf(column, value)
+  const nullChecks = {
+    isNull: BOOLEAN,
+    isNotNull: BOOLEAN,
+    isSet: BOOLEAN,
+    $exists: BOOLEAN,
+  }
+  const [type = ""] = column.dataType.split(" ")
+
+  if (column.getSQLType() === "tsvector") {
+    return { search: STRING, ...nullChecks }
+  }
+
+  if (column.dataType === "object json") {
+    return { json: JSON_PATH_QUERY, ...nullChecks }
+  }
+
+  if (isArrayColumn(column)) {
+    const items = arrayOf(valueSchema(column))
+    return {
+      eq: nullable,
+      ne: nullable,
+      arrayContains: items,
+      arrayContained: items,
+      arrayOverlaps: items,
+      has: valueSchema(column),
+      isEmpty: BOOLEAN,
+      ...nullChecks,
+    }
+  }
+
+  const operators: OperatorSchemas = {
+    eq: nullable,
+    ne: nullable,
+    in: arrayOf(value),
+    notIn: arrayOf(value),
+    ...nullChecks,
+  }
+
+  if (COMPARABLE_TYPES.has(type) || column.dataType === "object date") {
+    Object.assign(operators, { gt: value, gte: value, lt: value, lte: value })
+  }
+
+  if (TEXT_TYPES.has(column.dataType)) {
+    Object.assign(operators, {
+      like: STRING,
+      ilike: STRING,
+      notLike: STRING,
+      notIlike: STRING,
+      regex: STRING,
+      iregex: STRING,
+      // Only applies to `regex`
+      mode: { enum: ["default", "insensitive"] },
+      // Only applies to `$regex`
+      $options: { enum: ["", "i"] },
+      search: STRING,
+    })
+  }
+
+  return operators
+}
+
+/**
+ * Schema of the conditions on a column: a value (matched with `eq`) or an object of operators.
+ * `not` and `$not` negate conditions on the column, defined as `definition`.
+ */
+function columnSchema(column: Column, definition: string): JsonSchema {
+  const operators: JsonSchema = {
+    type: "object",
+    properties: {
+      ...columnOperators(column),
+      not: ref(definition),
+      $not: ref(definition),
+    },
+    additionalProperties: false,
+    minProperties: 1,
+  }
+  const description = `Conditions on the "${column.name}" column (${column.getSQLType()})`
+
+  if (isOperatorOnlyColumn(column)) {
+    return { description, ...operators }
+  }
+
+  return {
+    description,
+    anyOf: [nullableOf(column, columnValueSchema(column)), operators],
+  }
+}
+
+/**
+ * Schema of the conditions on a relation: the conditions of the related table, or
+ * quantified with `some`, `every`, `none` and `$elemMatch` for many relations, or with
+ * `is` and `isNot` for one relations.
+ */
+function relationSchema(
+  relation: TablesRelationalConfig[string]["relations"][string]
+): JsonSchema {
+  const target = ref(relation.targetTableName)
+  const isMany = relation.relationType === "many"
+  const properties: Record<string, JsonSchema> = Object.fromEntries(
+    relationQuantifiers(relation).map((quantifier) => [quantifier, target])
+  )
+
+  if (isMany) {
+    properties.semantics = { enum: ["strict", "vacuous"] }
+  }
+
+  return {
+    description: `Conditions on the related "${relation.targetTableName}"`,
+    anyOf: [
+      {
+        type: "object",
+        properties,
+        additionalProperties: false,
+        minProperties: 1,
+      },
+      target,
+    ],
+  }
+}
+
+function tableSchema(
+  relations: TablesRelationalConfig,
+  tableName: string,
+  definitions: Record<string, JsonSchema>
+): JsonSchema {
+  const tableConfig = relations[tableName]
+  const columns = tableConfig ? getColumns(tableConfig.table) : {}
+  const properties: Record<string, JsonSchema> = {}
+
+  for (const [key, column] of Object.entries(columns)) {
+    const definition = `${tableName}.${key}`
+    definitions[definition] = columnSchema(column as Column, definition)
+    properties[key] = ref(definition)
+  }
+
+  for (const [key, relation] of Object.entries(tableConfig?.relations ?? {})) {
+    if (!Object.hasOwn(properties, key)) {
+      properties[key] = relationSchema(relation)
+    }
+  }
+
+  return {
+    title: `${tableName} conditions`,
+    type: "object",
+    properties: {
+      ...properties,
+      ...Object.fromEntries(
+        COMPOUND_KEYS.map((key) => [
+          key,
+          key === "NOT" ? ref(tableName) : arrayOf(ref(tableName)),
+        ])
+      ),
+    },
+    additionalProperties: false,
+  }
+}
+
+/**
+ * Derives a JSON Schema for the conditions of rules on `subject` from the relations
+ * config: its columns with the operators valid for their data type, its relations
+ * with their quantifiers, and `NOT`, `OR` and `AND`. Tables referenced by relations
+ * are defined in `$defs`, so nested relations are validated as well.
+ *
+ * Mongo operators and further aliases accepted by the parser are included, like in
+ * `validateAbility()`. `RAW` conditions and the relation helpers are not part of the
+ * schema, as they can't be stored as JSON.
+ *
+ * @example
+ * ```ts
+ * const ajv = new Ajv2020()
+ * const validate = ajv.compile(conditionsJsonSchema(relations, "posts"))
+ *
+ * if (!validate(storedRule.conditions)) {
+ *   throw new Error(ajv.errorsText(validate.errors))
+ * }
+ * ```
+ */
+export function conditionsJsonSchema(
+  relations: TablesRelationalConfig,
+  subject: string
+): JsonSchema {
+  if (!Object.hasOwn(relations, subject)) {
+    throw new Error(
+      `Unknown subject "${subject}", expected one of ${Object.keys(relations).join(", ")}`
+    )
+  }
+
+  const definitions: Record<string, JsonSchema> = {}
+  const pending = [subject]
+
+  for (let tableName = pending.pop(); tableName; tableName = pending.pop()) {
+    if (!Object.hasOwn(definitions, tableName)) {
+      definitions[tableName] = tableSchema(relations, tableName, definitions)
+      pending.push(
+        ...Object.values(relations[tableName]?.relations ?? {}).map(
+          (relation) => relation.targetTableName
+        )
+      )
+    }
+  }
+
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $ref: `#/$defs/${subject}`,
+    $defs: definitions,
+  }
+}
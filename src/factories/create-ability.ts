@@ -1,4 +1,5 @@
 import type {
+  AnyAbility,
   AbilityOptions,
   AbilityOptionsOf,
   AbilityTuple,
@@ -7,13 +8,71 @@ import type {
 } from "@casl/ability"
 import { fieldPatternMatcher, Ability } from "@casl/ability"
 
-import { drizzleQuery } from "../drizzle-query"
+import { createDrizzleQuery } from "../drizzle-query"
+import { ParsingQueryError } from "../query-error"
+import { DrizzleQueryParser } from "../query-parser"
+import { findPermissiveRawCondition } from "../raw-condition"
+import type { DrizzleAbilityOptions } from "../types"
+import { validateAbility } from "./validate-ability"
+
+const drizzleAbilityOptions = new WeakMap<AnyAbility, DrizzleAbilityOptions>()
+
+/**
+ * Returns the `DrizzleAbilityOptions` an ability was created with,
+ * so that database helpers can honour them as well.
+ * @internal
+ */
+export function getDrizzleAbilityOptions(
+  ability: AnyAbility
+): DrizzleAbilityOptions {
+  return drizzleAbilityOptions.get(ability) ?? {}
+}
+
+/**
+ * With `rawConditions: "deny"`, RAW conditions without predicate don't match in memory.
+ * Throws for rules where this would grant access instead, e.g. `cannot` rules.
+ */
+function assertRawConditionsDeny(
+  ability: AnyAbility,
+  parser: DrizzleQueryParser
+): void {
+  for (const [ruleIndex, rule] of ability.rules.entries()) {
+    if (!rule.conditions) {
+      continue
+    }
+
+    const details = {
+      ruleIndex,
+      subject: [rule.subject ?? "all"].flat().map(String).join(", "),
+      action: [rule.action].flat().join(", "),
+      rule,
+    }
+    let condition: ReturnType<DrizzleQueryParser["parse"]>
+    try {
+      condition = parser.parse(rule.conditions as Record<string, unknown>)
+    } catch (error) {
+      throw ParsingQueryError.inRule(error as Error, details)
+    }
+
+    if (findPermissiveRawCondition(condition, Boolean(rule.inverted))) {
+      throw ParsingQueryError.inRule(
+        new ParsingQueryError(
+          'RAW condition without predicate would grant access when treated as not matching by rawConditions "deny". Use raw(sql, predicate) to attach a JavaScript predicate',
+          { code: "UNSUPPORTED_IN_MEMORY", operator: "RAW" }
+        ),
+        details
+      )
+    }
+  }
+}
 
 export function createAbilityFactory<
   TModelName extends string,
   // oxlint-disable-next-line typescript/no-explicit-any
   TDrizzleQuery extends Record<string, any>,
->() {
+>(abilityOptions: DrizzleAbilityOptions = {}) {
+  const conditionsMatcher = createDrizzleQuery(abilityOptions)
+
   // oxlint-disable-next-line typescript/no-explicit-any
   function createAbility<T extends Ability<any, TDrizzleQuery>>(
     rules?: RawRuleOf<T>[],
@@ -30,12 +89,31 @@ export function createAbilityFactory<
     options = {}
     // oxlint-disable-next-line typescript/no-explicit-any
   ): Ability<any, any> {
-    return new Ability(rules, {
+    const ability = new Ability(rules, {
       ...options,
       // oxlint-disable-next-line typescript/no-explicit-any
-      conditionsMatcher: drizzleQuery as any,
+      conditionsMatcher: conditionsMatcher as any,
       fieldMatcher: fieldPatternMatcher,
     })
+    drizzleAbilityOptions.set(ability, abilityOptions)
+
+    if (abilityOptions.rawConditions === "deny") {
+      const parser = new DrizzleQueryParser(abilityOptions)
+      assertRawConditionsDeny(ability, parser)
+      ability.on("updated", () => {
+        assertRawConditionsDeny(ability, parser)
+      })
+    }
+
+    if (abilityOptions.strict) {
+      const { relations, ...validateOptions } = abilityOptions.strict
+      validateAbility(ability, relations, validateOptions)
+      ability.on("updated", () => {
+        validateAbility(ability, relations, validateOptions)
+      })
+    }
+
+    return ability
   }
 
   return createAbility
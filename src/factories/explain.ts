@@ -0,0 +1,295 @@
+import type { AnyAbility } from "@casl/ability"
+import {
+  CompoundCondition,
+  Condition,
+  FieldCondition,
+  ITSELF,
+} from "@ucast/core"
+
+import { createDrizzleInterpreter } from "../query-interpreter"
+import { getDrizzleAbilityOptions } from "./create-ability"
+
+type Row = Record<string, unknown>
+
+type AnyRule = ReturnType<AnyAbility["rulesFor"]>[number]
+
+type Interpret = (condition: Condition, object: unknown) => boolean
+
+/**
+ * Evaluation of a parsed condition against a record.
+ */
+export interface ConditionTrace {
+  /** Operator as parsed, e.g. `eq`, `like`, `AND` or `some` */
+  operator: string
+  /** Field of the record, not set for compound conditions and RAW conditions on the record itself */
+  field?: string
+  /** Operand of the operator, not set for compound and relation conditions */
+  value?: unknown
+  /** Value of the field in the record */
+  actual?: unknown
+  passed: boolean
+  /** Traces of the conditions of `AND`, `OR` and `NOT` */
+  children?: ConditionTrace[]
+  /** Traces of the nested condition for each related record of `some`, `every` and `is` */
+  related?: ConditionTrace[]
+}
+
+/**
+ * A rule relevant for the explained action and subject type.
+ */
+export interface ExplainedRule {
+  /** Index of the rule in `ability.rules` */
+  ruleIndex: number
+  /** Action of the rule, or its actions separated by commas */
+  action: string
+  /** Subject type of the rule, or its subject types separated by commas */
+  subject: string
+  /** Whether it is a `cannot` rule */
+  inverted: boolean
+  /** Reason given with `because()` */
+  reason?: string
+  conditions?: unknown
+  /** Conditions as parsed by the ability */
+  condition?: Condition
+  /**
+   * Whether the rule applies: to the record when given, otherwise like
+   * `ability.can(action, subjectType)` (conditional `can` rules apply, conditional `cannot` rules don't)
+   */
+  matched: boolean
+  /** Evaluation of the conditions against the record, when given */
+  trace?: ConditionTrace
+}
+
+/**
+ * Result of `explain()`.
+ */
+export interface Explanation {
+  action: string
+  subjectType: string
+  record?: Row
+  allowed: boolean
+  /** Relevant rules in priority order, the first matched rule decides */
+  rules: ExplainedRule[]
+  /** The rule deciding, none when no rule applies */
+  winner?: ExplainedRule
+  /** Readable explanation, e.g. for logs and support tools */
+  text: string
+}
+
+const isRelationCondition = (
+  condition: Condition
+): condition is FieldCondition<Condition> =>
+  condition instanceof FieldCondition && condition.value instanceof Condition
+
+const relatedRecords = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value
+  }
+  return value !== null && typeof value === "object" ? [value] : []
+}
+
+function traceCondition(
+  interpret: Interpret,
+  condition: Condition,
+  object: Row
+): ConditionTrace {
+  const passed = interpret(condition, object)
+
+  if (condition instanceof CompoundCondition) {
+    return {
+      operator: condition.operator,
+      passed,
+      children: condition.value.map((subCondition) =>
+        traceCondition(interpret, subCondition, object)
+      ),
+    }
+  }
+
+  if (!(condition instanceof FieldCondition)) {
+    return { operator: condition.operator, passed }
+  }
+
+  if (condition.field === ITSELF) {
+    return { operator: condition.operator, value: condition.value, passed }
+  }
+
+  const actual = object[condition.field]
+
+  if (isRelationCondition(condition)) {
+    return {
+      operator: condition.operator,
+      field: condition.field,
+      passed,
+      related: relatedRecords(actual).map((item) =>
+        traceCondition(interpret, condition.value, item as Row)
+      ),
+    }
+  }
+
+  return {
+    operator: condition.operator,
+    field: condition.field,
+    value: condition.value,
+    actual,
+    passed,
+  }
+}
+
+const isPlainObject = (value: object) =>
+  Object.getPrototypeOf(value) === Object.prototype ||
+  Object.getPrototypeOf(value) === null
+
+/**
+ * Formats values like JSON, with SQL expressions and other instances as `[SQL]` etc.
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "undefined"
+  }
+
+  return JSON.stringify(value, (_, entry: unknown) => {
+    if (typeof entry === "bigint") {
+      return `${entry}n`
+    }
+    if (typeof entry === "function") {
+      return "[function]"
+    }
+    if (
+      entry !== null &&
+      typeof entry === "object" &&
+      !Array.isArray(entry) &&
+      !isPlainObject(entry)
+    ) {
+      return `[${entry.constructor.name}]`
+    }
+    return entry
+  })
+}
+
+function formatTrace(trace: ConditionTrace, indent: string): string[] {
+  const status = trace.passed ? "pass" : "fail"
+
+  if (trace.children) {
+    return [
+      `${indent}${status} ${trace.operator}`,
+      ...trace.children.flatMap((child) => formatTrace(child, `${indent}  `)),
+    ]
+  }
+
+  if (trace.related) {
+    const count = `${trace.related.length} related`
+    return [
+      `${indent}${status} ${trace.field} ${trace.operator} (${count})`,
+      ...trace.related.flatMap((item, index) => [
+        `${indent}  [${index}]`,
+        ...formatTrace(item, `${indent}    `),
+      ]),
+    ]
+  }
+
+  const field = trace.field === undefined ? "" : `${trace.field} `
+  const actual =
+    trace.field === undefined ? "" : `, actual ${formatValue(trace.actual)}`
+  return [
+    `${indent}${status} ${field}${trace.operator} ${formatValue(trace.value)}${actual}`,
+  ]
+}
+
+function formatRule(rule: ExplainedRule): string {
+  const kind = rule.inverted ? "cannot" : "can"
+  const conditions =
+    rule.conditions === undefined ? "" : ` ${formatValue(rule.conditions)}`
+  const reason =
+    rule.reason === undefined ? "" : ` because ${formatValue(rule.reason)}`
+  const status = rule.matched ? "matched" : "not matched"
+
+  return `#${rule.ruleIndex} ${kind} "${rule.action}" on "${rule.subject}"${conditions}${reason}: ${status}`
+}
+
+function formatExplanation(explanation: Omit<Explanation, "text">): string {
+  const { action, subjectType, winner } = explanation
+  const decision = explanation.allowed ? "allowed" : "denied"
+  const decidedBy = winner
+    ? ` by rule #${winner.ruleIndex}`
+    : ", no rule applies"
+
+  return [
+    `"${action}" on "${subjectType}" is ${decision}${decidedBy}`,
+    ...explanation.rules.flatMap((rule) => [
+      formatRule(rule),
+      ...(rule.trace ? formatTrace(rule.trace, "  ") : []),
+    ]),
+  ].join("\n")
+}
+
+function explainRule(
+  ability: AnyAbility,
+  rule: AnyRule,
+  interpret: Interpret,
+  subjectType: string,
+  record?: Row
+): ExplainedRule {
+  const explained: ExplainedRule = {
+    ruleIndex: (ability.rules as unknown[]).indexOf(rule.origin),
+    action: [rule.action].flat().join(", "),
+    subject: [rule.subject].flat().join(", "),
+    inverted: rule.inverted,
+    matched: rule.matchesConditions(record ?? subjectType),
+  }
+
+  if (rule.reason !== undefined) {
+    explained.reason = rule.reason
+  }
+
+  if (rule.conditions) {
+    explained.conditions = rule.conditions
+    explained.condition = rule.ast as Condition
+    if (record) {
+      explained.trace = traceCondition(interpret, explained.condition, record)
+    }
+  }
+
+  return explained
+}
+
+/**
+ * Explains why `action` on `subjectType` is allowed or denied: lists the relevant rules in
+ * priority order, with their parsed conditions and, when a record is given, the evaluation of
+ * each condition against it. The first matched rule (`winner`) decides, like in `ability.can()`.
+ *
+ * @example
+ * ```ts
+ * import { explain } from "@noxify/casl-drizzle"
+ *
+ * console.log(explain(ability, "update", "posts", post).text)
+ * // "update" on "posts" is denied by rule #2
+ * // #2 cannot "update" on "posts" {"archived":true} because "Archived posts are read-only": matched
+ * //   pass archived eq true, actual true
+ * // #0 can "update" on "posts" {"authorId":7}: not matched
+ * //   fail authorId eq 7, actual 8
+ * ```
+ */
+export function explain(
+  ability: AnyAbility,
+  action: string,
+  subjectType: string,
+  record?: Row
+): Explanation {
+  const interpret = createDrizzleInterpreter(
+    getDrizzleAbilityOptions(ability)
+  ) as Interpret
+  const rules = ability
+    .rulesFor(action, subjectType)
+    .map((rule) => explainRule(ability, rule, interpret, subjectType, record))
+  const winner = rules.find((rule) => rule.matched)
+  const explanation = {
+    action,
+    subjectType,
+    ...(record && { record }),
+    allowed: winner ? !winner.inverted : false,
+    rules,
+    ...(winner && { winner }),
+  }
+
+  return { ...explanation, text: formatExplanation(explanation) }
+}
@@ -0,0 +1,627 @@
+import type { RawRuleFrom } from "@casl/ability"
+import { getColumns } from "drizzle-orm"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
+
+import type { PolicyDocument } from "../policy-document"
+import { parsePolicyDocument } from "../policy-document"
+import { PolicyError } from "../policy-error"
+import { ParsingQueryError } from "../query-error"
+import { DrizzleQueryParser } from "../query-parser"
+
+/**
+ * Options for `loadPolicy()`.
+ */
+export interface LoadPolicyOptions {
+  /** Relations created with `defineRelations()`, used to validate subjects and fields */
+  relations: TablesRelationalConfig
+  /** Name of the policy file, used in error messages */
+  fileName?: string
+  /**
+   * Format of the policy file.
+   * @default "json" for file names ending with `.json`, "yaml" otherwise
+   */
+  format?: "yaml" | "json"
+  /** Allowed actions, any action is allowed when omitted */
+  actions?: readonly string[]
+  /**
+   * Variables of the placeholders, mapped to the subject they are records of, e.g.
+   * `{ user: "users" }`: `${user.id}` must be a column of `users`, `${user.team.id}` a
+   * column of its `team` relation. As a list, e.g. `["user.id"]` or `["user"]`, the
+   * placeholders must start with one of them. Any placeholder is allowed when omitted.
+   */
+  variables?: readonly string[] | Readonly<Record<string, string>>
+}
+
+/**
+ * Rule of a policy, to be passed to `createAbilityFactory()` or `createDrizzleAbilityFor()`.
+ */
+export type PolicyRule = RawRuleFrom<[string, string], Record<string, unknown>>
+
+/**
+ * Policy loaded with `loadPolicy()`.
+ */
+export interface Policy {
+  /** Roles defined by the policy */
+  roles: string[]
+  /**
+   * Rules of one or more roles, with the placeholders replaced by `variables`.
+   * Throws a `PolicyError` for unknown roles, missing variables and invalid conditions.
+   */
+  rulesFor: (
+    roles: string | readonly string[],
+    variables?: Record<string, unknown>
+  ) => PolicyRule[]
+}
+
+type Path = (string | number)[]
+
+interface PolicyEntry {
+  action: string
+  subject: string
+  conditions?: Record<string, unknown>
+  fields?: string[]
+  inverted?: boolean
+  reason?: string
+  path: Path
+}
+
+interface PolicyContext {
+  document: PolicyDocument
+  options: LoadPolicyOptions
+}
+
+const ALL_SUBJECTS = "all"
+const COMPOUND_KEYS = new Set(["AND", "OR", "NOT", "$and", "$or", "$nor"])
+const RELATION_QUANTIFIERS = new Set([
+  "some",
+  "every",
+  "none",
+  "is",
+  "isNot",
+  "$elemMatch",
+])
+const RULE_KEYS = new Set(["conditions", "fields", "inverted", "reason"])
+const PLACEHOLDER = /\$\{(?<name>[^}]*)\}/gu
+const WHOLE_PLACEHOLDER = /^\$\{(?<name>[^}]*)\}$/u
+const VARIABLE_NAME = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/u
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value)
+
+const isScalar = (value: unknown) =>
+  value === null ||
+  value instanceof Date ||
+  (typeof value !== "object" && typeof value !== "function")
+
+function policyError(context: PolicyContext, message: string, path: Path) {
+  return PolicyError.at(message, {
+    fileName: context.options.fileName,
+    ...context.document.positionOf(path),
+    path: path.map(String),
+  })
+}
+
+/**
+ * Checks that the properties of a variable lead through the relations of its subject to a column.
+ */
+function validateVariableProperties(
+  context: PolicyContext,
+  name: string,
+  subject: string,
+  path: Path
+) {
+  const [variable, ...properties] = name.split(".")
+  let tableName = subject
+
+  for (const [index, property] of properties.entries()) {
+    const tableConfig = context.options.relations[tableName]
+    if (!tableConfig) {
+      throw policyError(
+        context,
+        `Unknown subject "${tableName}" of variable "${variable}"`,
+        path
+      )
+    }
+
+    const isLast = index === properties.length - 1
+    const relation = tableConfig.relations[property]
+    if (isLast && Object.hasOwn(getColumns(tableConfig.table), property)) {
+      return
+    }
+    if (isLast || !relation) {
+      throw policyError(
+        context,
+        `Unknown variable "${name}", "${tableName}" has no such ${isLast ? "column" : "relation"} "${property}"`,
+        path
+      )
+    }
+    tableName = relation.targetTableName
+  }
+
+  throw policyError(
+    context,
+    `Variable "${name}" must refer to a column of "${subject}"`,
+    path
+  )
+}
+
+function validateVariable(context: PolicyContext, name: string, path: Path) {
+  const { variables } = context.options
+
+  if (!VARIABLE_NAME.test(name)) {
+    throw policyError(context, `Invalid placeholder "\${${name}}"`, path)
+  }
+
+  if (!variables) {
+    return
+  }
+
+  if (Array.isArray(variables)) {
+    const isDeclared = variables.some(
+      (variable) => name === variable || name.startsWith(`${variable}.`)
+    )
+    if (!isDeclared) {
+      throw policyError(
+        context,
+        `Unknown variable "${name}", expected one of ${variables.join(", ")}`,
+        path
+      )
+    }
+    return
+  }
+
+  const subjects = variables as Readonly<Record<string, string>>
+  const [variable = ""] = name.split(".")
+  if (!Object.hasOwn(subjects, variable)) {
+    throw policyError(
+      context,
+      `Unknown variable "${name}", expected one of ${Object.keys(subjects).join(", ")}`,
+      path
+    )
+  }
+  validateVariableProperties(context, name, subjects[variable] ?? "", path)
+}
+
+function validatePlaceholders(
+  context: PolicyContext,
+  value: unknown,
+  path: Path
+) {
+  if (typeof value === "string") {
+    for (const { groups } of value.matchAll(PLACEHOLDER)) {
+      validateVariable(context, groups?.name ?? "", path)
+    }
+  } else if (Array.isArray(value) || isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      validatePlaceholders(context, item, [...path, key])
+    }
+  }
+}
+
+/**
+ * Checks that every key of the conditions is a column or relation of the table,
+ * a compound operator, or a relation quantifier (within relation conditions).
+ */
+function validateFields(
+  context: PolicyContext,
+  tableName: string,
+  conditions: unknown,
+  path: Path,
+  isRelation = false
+) {
+  if (Array.isArray(conditions)) {
+    for (const [index, item] of conditions.entries()) {
+      validateFields(context, tableName, item, [...path, index], isRelation)
+    }
+    return
+  }
+
+  if (!isPlainObject(conditions)) {
+    if (isRelation) {
+      return
+    }
+    throw policyError(context, "Expected a mapping of conditions", path)
+  }
+
+  const tableConfig = context.options.relations[tableName]
+  const columns = tableConfig ? getColumns(tableConfig.table) : {}
+
+  for (const [key, value] of Object.entries(conditions)) {
+    const fieldPath = [...path, key]
+    const relation = tableConfig?.relations[key]
+
+    if (key === "RAW") {
+      throw policyError(
+        context,
+        "RAW conditions can't be defined in a policy file",
+        fieldPath
+      )
+    }
+
+    if (
+      COMPOUND_KEYS.has(key) ||
+      (isRelation && RELATION_QUANTIFIERS.has(key))
+    ) {
+      validateFields(context, tableName, value, fieldPath, isRelation)
+    } else if (relation && !Object.hasOwn(columns, key)) {
+      validateFields(context, relation.targetTableName, value, fieldPath, true)
+    } else if (!Object.hasOwn(columns, key)) {
+      throw policyError(
+        context,
+        `Unknown field "${key}", "${tableName}" has no such column or relation`,
+        fieldPath
+      )
+    }
+  }
+}
+
+function validateAction(context: PolicyContext, action: string, path: Path) {
+  const { actions } = context.options
+
+  if (actions && !actions.includes(action)) {
+    throw policyError(
+      context,
+      `Unknown action "${action}", expected one of ${actions.join(", ")}`,
+      path
+    )
+  }
+}
+
+function validateSubject(context: PolicyContext, subject: string, path: Path) {
+  if (
+    subject !== ALL_SUBJECTS &&
+    !Object.hasOwn(context.options.relations, subject)
+  ) {
+    throw policyError(
+      context,
+      `Unknown subject "${subject}", expected one of ${Object.keys(context.options.relations).join(", ")}`,
+      path
+    )
+  }
+}
+
+type RuleOptions = Pick<
+  PolicyEntry,
+  "conditions" | "fields" | "inverted" | "reason"
+>
+
+/**
+ * Whether a mapping is a rule with `conditions`, `fields`, `inverted` or `reason`, rather than
+ * conditions. Keys which are columns or relations of the table are conditions.
+ */
+function isRuleMapping(
+  context: PolicyContext,
+  subject: string,
+  value: Record<string, unknown>
+) {
+  const tableConfig = context.options.relations[subject]
+  const columns = tableConfig ? getColumns(tableConfig.table) : {}
+
+  return Object.keys(value).some(
+    (key) =>
+      RULE_KEYS.has(key) &&
+      !Object.hasOwn(columns, key) &&
+      !tableConfig?.relations[key]
+  )
+}
+
+function validateRuleFields(
+  context: PolicyContext,
+  subject: string,
+  value: unknown,
+  path: Path
+): string[] {
+  if (subject === ALL_SUBJECTS) {
+    throw policyError(
+      context,
+      `Rules on "${ALL_SUBJECTS}" can't have fields`,
+      path
+    )
+  }
+
+  const fields = typeof value === "string" ? [value] : value
+  if (
+    !Array.isArray(fields) ||
+    !fields.every((field) => typeof field === "string")
+  ) {
+    throw policyError(context, "Expected a field or a list of fields", path)
+  }
+
+  const tableConfig = context.options.relations[subject]
+  const columns = tableConfig ? getColumns(tableConfig.table) : {}
+  for (const [index, field] of fields.entries()) {
+    if (!Object.hasOwn(columns, field)) {
+      throw policyError(
+        context,
+        `Unknown field "${field}", "${subject}" has no such column`,
+        Array.isArray(value) ? [...path, index] : path
+      )
+    }
+  }
+
+  return fields
+}
+
+function ruleOptionsOf(
+  context: PolicyContext,
+  subject: string,
+  rule: Record<string, unknown>,
+  path: Path
+): RuleOptions {
+  const options: RuleOptions = {}
+
+  for (const [key, value] of Object.entries(rule)) {
+    const keyPath = [...path, key]
+
+    if (key === "conditions") {
+      options.conditions = value as Record<string, unknown>
+    } else if (key === "fields") {
+      options.fields = validateRuleFields(context, subject, value, keyPath)
+    } else if (key === "inverted" && typeof value === "boolean") {
+      if (value) {
+        options.inverted = true
+      }
+    } else if (key === "reason" && typeof value === "string") {
+      options.reason = value
+    } else if (RULE_KEYS.has(key)) {
+      throw policyError(
+        context,
+        `Expected ${key === "inverted" ? "true or false" : "a string"}`,
+        keyPath
+      )
+    } else {
+      throw policyError(
+        context,
+        `Unexpected key "${key}" in a rule, conditions must be nested in "conditions"`,
+        keyPath
+      )
+    }
+  }
+
+  return options
+}
+
+/**
+ * Collects the rules of an action: `true` for an unconditional rule, a mapping of
+ * conditions, a rule mapping with `conditions`, `fields`, `inverted` or `reason`,
+ * or a list of mappings for several rules.
+ */
+function collectActionRules(
+  context: PolicyContext,
+  action: string,
+  subject: string,
+  value: unknown,
+  path: Path
+): PolicyEntry[] {
+  if (value === true) {
+    return [{ action, subject, path }]
+  }
+
+  const rules = Array.isArray(value) ? value : [value]
+
+  return rules.map((rule, index) => {
+    const rulePath = Array.isArray(value) ? [...path, index] : path
+
+    if (!isPlainObject(rule)) {
+      throw policyError(
+        context,
+        "Expected true, a mapping of conditions or a list of them",
+        rulePath
+      )
+    }
+
+    const isMapping = isRuleMapping(context, subject, rule)
+    const options = isMapping
+      ? ruleOptionsOf(context, subject, rule, rulePath)
+      : { conditions: rule }
+    const conditionsPath = isMapping ? [...rulePath, "conditions"] : rulePath
+
+    if (subject === ALL_SUBJECTS && options.conditions !== undefined) {
+      throw policyError(
+        context,
+        `Rules on "${ALL_SUBJECTS}" can't have conditions`,
+        rulePath
+      )
+    }
+
+    if (options.conditions !== undefined) {
+      validateFields(context, subject, options.conditions, conditionsPath)
+      validatePlaceholders(context, options.conditions, conditionsPath)
+    }
+    return { action, subject, ...options, path: conditionsPath }
+  })
+}
+
+function entriesOf(
+  context: PolicyContext,
+  value: unknown,
+  path: Path,
+  expected: string
+): [string, unknown][] {
+  if (!isPlainObject(value)) {
+    throw policyError(context, `Expected a mapping of ${expected}`, path)
+  }
+
+  return Object.entries(value)
+}
+
+function collectRoleRules(
+  context: PolicyContext,
+  role: string,
+  subjects: unknown
+): PolicyEntry[] {
+  return entriesOf(context, subjects, [role], "subjects").flatMap(
+    ([subject, actions]) => {
+      validateSubject(context, subject, [role, subject])
+
+      return entriesOf(context, actions, [role, subject], "actions").flatMap(
+        ([action, value]) => {
+          const path = [role, subject, action]
+          validateAction(context, action, path)
+          return collectActionRules(context, action, subject, value, path)
+        }
+      )
+    }
+  )
+}
+
+function resolveVariable(
+  context: PolicyContext,
+  variables: Record<string, unknown>,
+  name: string,
+  path: Path
+): unknown {
+  let value: unknown = variables
+
+  for (const key of name.split(".")) {
+    value =
+      isPlainObject(value) && Object.hasOwn(value, key) ? value[key] : undefined
+  }
+
+  if (value === undefined) {
+    throw policyError(context, `Missing variable "${name}"`, path)
+  }
+
+  return value
+}
+
+/**
+ * Replaces the placeholders of the conditions. A placeholder which makes up the whole
+ * string keeps the type of the variable, e.g. `"${user.id}"` becomes a number.
+ * Variables must be scalars (or arrays of scalars for whole placeholders), so that
+ * their values can't introduce operators like `{ ne: 0 }` into the conditions.
+ */
+function substitute(
+  context: PolicyContext,
+  value: unknown,
+  variables: Record<string, unknown>,
+  path: Path
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      substitute(context, item, variables, [...path, index])
+    )
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        substitute(context, item, variables, [...path, key]),
+      ])
+    )
+  }
+
+  if (typeof value !== "string") {
+    return value
+  }
+
+  const whole = WHOLE_PLACEHOLDER.exec(value)?.groups?.name
+  if (whole !== undefined) {
+    const resolved = resolveVariable(context, variables, whole, path)
+    if (
+      !isScalar(resolved) &&
+      !(Array.isArray(resolved) && resolved.every(isScalar))
+    ) {
+      throw policyError(
+        context,
+        `Variable "${whole}" must be a scalar or an array of scalars`,
+        path
+      )
+    }
+    return resolved
+  }
+
+  return value.replaceAll(PLACEHOLDER, (_, name: string) => {
+    const resolved = resolveVariable(context, variables, name, path)
+    if (!isScalar(resolved)) {
+      throw policyError(
+        context,
+        `Variable "${name}" must be a scalar within a string`,
+        path
+      )
+    }
+    return String(resolved)
+  })
+}
+
+/**
+ * Loads a policy file, which maps roles to subjects, subjects to actions and actions to
+ * `true`, conditions or rule mappings (with `inverted`, `fields` and `reason`). Conditions may
+ * contain placeholders like `${user.id}`, which are replaced when the rules of a role are requested.
+ *
+ * Unknown subjects, actions and fields are reported as `PolicyError` with the position
+ * in the file, e.g. `policy.yaml:4:7: Unknown field "ownerId", ...`.
+ *
+ * @example
+ * ```ts
+ * const policy = loadPolicy(readFileSync("policy.yaml", "utf8"), {
+ *   fileName: "policy.yaml",
+ *   relations,
+ *   actions: ["read", "update"],
+ *   variables: { user: "users" },
+ * })
+ *
+ * const ability = createAbility(policy.rulesFor(user.role, { user }))
+ * ```
+ */
+export function loadPolicy(source: string, options: LoadPolicyOptions): Policy {
+  const format =
+    options.format ??
+    (options.fileName?.toLowerCase().endsWith(".json") ? "json" : "yaml")
+  const document = parsePolicyDocument(source, {
+    format,
+    fileName: options.fileName,
+  })
+  const context: PolicyContext = { document, options }
+  const rolesByName = new Map(
+    entriesOf(context, document.value ?? {}, [], "roles").map(
+      ([role, subjects]) => [role, collectRoleRules(context, role, subjects)]
+    )
+  )
+  const parser = new DrizzleQueryParser()
+
+  const toRule = (
+    entry: PolicyEntry,
+    variables: Record<string, unknown>
+  ): PolicyRule => {
+    const { conditions: _, path: __, ...rule } = entry
+    if (!entry.conditions) {
+      return rule
+    }
+
+    const conditions = substitute(
+      context,
+      entry.conditions,
+      variables,
+      entry.path
+    ) as Record<string, unknown>
+
+    try {
+      parser.parse(conditions)
+    } catch (error) {
+      if (error instanceof ParsingQueryError) {
+        throw policyError(context, error.message, entry.path)
+      }
+      throw error
+    }
+
+    return { ...rule, conditions }
+  }
+
+  return {
+    roles: [...rolesByName.keys()],
+    rulesFor: (roles, variables = {}) =>
+      (typeof roles === "string" ? [roles] : roles).flatMap((role) => {
+        const entries = rolesByName.get(role)
+        if (!entries) {
+          throw PolicyError.at(
+            `Unknown role "${role}", expected one of ${[...rolesByName.keys()].join(", ")}`,
+            { fileName: options.fileName }
+          )
+        }
+
+        return entries.map((entry) => toRule(entry, variables))
+      }),
+  }
+}
@@ -1,5 +1,8 @@
-import type { SQL, Table } from "drizzle-orm"
-import { operators, sql } from "drizzle-orm"
+import type { Column, operators, SQL } from "drizzle-orm"
+import { getColumns, is, Table } from "drizzle-orm"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
+
+import type { EverySemantics, QueryInput } from "../types"
 
 /**
  * Type for the builder function parameter with operators and column proxies
@@ -7,39 +10,209 @@ import { operators, sql } from "drizzle-orm"
 type RelationHelperBuilder = typeof operators & {
   /**
    * Proxy to access columns from the related table.
-   * Each property access returns a SQL reference to that column.
+   * Property names are resolved through the column config of the table, so `columns.authorId`
+   * refers to the `author_id` column of the aliased table in the relation subquery.
+   * Unknown columns throw an error when the query is built.
    *
    * TypeScript limitation: Due to how Proxy types work, columns is typed as Record<string, any>.
-   * At runtime, each property access returns a valid SQL instance.
+   * Pass the table as first argument for typed columns.
    *
    * @example
    * ```ts
    * some(({ eq, columns }) => eq(columns.name, 'Alice'))
-   * // Generates: name = 'Alice' (in relation subquery context)
+   * // Generates: "f0"."name" = 'Alice' (in relation subquery context)
    * ```
    */
   // oxlint-disable-next-line typescript/no-explicit-any
   columns: Record<string, any>
+  /**
+   * Proxy to access columns of the parent table, e.g. `posts` for `posts.comments`.
+   * Resolves to the aliased parent table when the query is built.
+   *
+   * @example
+   * ```ts
+   * // Comments written by the author of the post
+   * some(({ eq, columns, parent }) => eq(columns.authorId, parent.authorId))
+   * ```
+   */
+  // oxlint-disable-next-line typescript/no-explicit-any
+  parent: Record<string, any>
+}
+
+/**
+ * Builder function parameter typed for the related table and the parent table.
+ */
+type TypedRelationHelperBuilder<T extends Table, TParent extends Table> = Omit<
+  RelationHelperBuilder,
+  "columns" | "parent"
+> & {
+  columns: T["_"]["columns"]
+  parent: TParent["_"]["columns"]
+}
+
+/**
+ * Options for the table variants of `some()`, `every()` and `none()`.
+ */
+export interface RelationHelperOptions<TParent extends Table> {
+  /**
+   * Parent table, used to type `parent` in the builder function.
+   * At runtime, `parent` always refers to the table the relation is defined on.
+   */
+  parent: TParent
 }
 
 /**
- * Creates a proxy that converts property access to SQL column references.
- * Used for relation table `columns`.
+ * Options of `every()`, also set on the returned relation condition.
  */
-const createColumnProxy = (): Record<string, SQL<unknown>> =>
+export interface EveryOptions {
+  /**
+   * Whether records without related records match the condition
+   * (`"vacuous"`) or not (`"strict"`).
+   * Defaults to the `everySemantics` option of the ability.
+   */
+  semantics?: EverySemantics
+}
+
+type RelationHelperCondition = SQL | ((builder: RelationHelperBuilder) => SQL)
+
+/**
+ * Object query for the related records, parsed like the conditions of a rule.
+ */
+type RelationQuery = Record<string, unknown>
+
+/**
+ * Filter applied to the related records.
+ * A RAW builder receives the related table under the alias used in the generated subquery
+ * and the (aliased) parent table, which is passed by `accessibleSQL()`, and by `accessibleBy()`
+ * given the relations config.
+ */
+type RelationFilter =
+  | {
+      RAW:
+        | SQL
+        // oxlint-disable-next-line typescript/no-explicit-any
+        | ((table: any, ops: typeof operators, parent?: Table) => SQL)
+    }
+  | Record<string, never>
+
+/**
+ * Structured relation condition returned by `some()`, `every()` and `none()`.
+ * It's parsed by `DrizzleQueryParser` into the matching instruction and rewritten by
+ * `accessibleBy()` into correlated `EXISTS` / `NOT EXISTS` relation filters.
+ *
+ * `RAW` is declared (but never set) so that the result is assignable to Drizzle's relation filters.
+ */
+export type RelationCondition<
+  TQuantifier extends "some" | "every" | "none",
+  TFilter = RelationFilter,
+> = Record<TQuantifier, TFilter> & { RAW?: never }
+
+// Name of a table before aliasing, not part of Drizzle's public types
+const OriginalName = Symbol.for("drizzle:OriginalName")
+
+const originalNameOf = (table: Table): string =>
+  (table as unknown as Record<symbol, string>)[OriginalName] ?? ""
+
+/**
+ * Creates a proxy that resolves property access to the columns of `table`.
+ * The columns carry their database name, explicitly set or derived from the `casing` option
+ * of the Drizzle instance, and are qualified with the table alias of the generated query.
+ */
+const createColumnProxy = (
+  table: Table | undefined,
+  description: string
+): Record<string, Column> =>
   new Proxy(
     {},
     {
-      get: (_, columnName): SQL<unknown> => sql.raw(String(columnName)),
+      get: (_, columnName): Column | undefined => {
+        if (typeof columnName === "symbol") {
+          return undefined
+        }
+
+        if (!table) {
+          throw new Error(
+            `The ${description} is only available when the condition is used with accessibleSQL(), or with accessibleBy() given the relations config`
+          )
+        }
+
+        const column = getColumns(table)[columnName]
+        if (!column) {
+          throw new Error(
+            `Unknown column "${columnName}" on the ${description} "${originalNameOf(table)}"`
+          )
+        }
+
+        return column
+      },
     }
-  ) as Record<string, SQL<unknown>>
+  ) as Record<string, Column>
+
+const isTable = (value: unknown): value is Table => is(value, Table)
+
+const isPlainObject = (value: unknown): value is RelationQuery =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null)
 
 /**
- * Helper to create a RAW condition for "some" relation filtering.
- * Generates an EXISTS subquery that returns true if at least one related record matches the condition.
+ * Builds the filter for the related records from the arguments of a relation helper.
+ * Builder functions run when the query is built, so that typed `columns` refer to the
+ * related table under its subquery alias.
+ */
+function toRelationFilter(
+  // Typed queries (`QueryInput`) aren't assignable to `RelationQuery`, the overloads check the arguments
+  conditionOrTable: unknown,
+  maybeCondition: ((builder: RelationHelperBuilder) => SQL) | undefined
+): RelationFilter | RelationQuery {
+  // Handle overload: helper(table, condition)
+  if (isTable(conditionOrTable)) {
+    if (!maybeCondition) {
+      throw new Error("Condition is required when table is provided")
+    }
+
+    return {
+      RAW: (table: Table, ops: typeof operators, parent?: Table) =>
+        maybeCondition({
+          ...ops,
+          columns: createColumnProxy(table, "related table"),
+          parent: createColumnProxy(parent, "parent table"),
+        }),
+    }
+  }
+
+  // Handle overload: helper(query)
+  if (isPlainObject(conditionOrTable)) {
+    return conditionOrTable
+  }
+
+  // Handle overload: helper(condition)
+  if (typeof conditionOrTable === "function") {
+    const condition = conditionOrTable as (
+      builder: RelationHelperBuilder
+    ) => SQL
+    return {
+      RAW: (table: Table, ops: typeof operators, parent?: Table) =>
+        condition({
+          ...ops,
+          columns: createColumnProxy(table, "related table"),
+          parent: createColumnProxy(parent, "parent table"),
+        }),
+    }
+  }
+
+  return conditionOrTable ? { RAW: conditionOrTable as SQL } : {}
+}
+
+/**
+ * Helper to create a "some" relation condition.
+ * Matches records with at least one related record matching the condition (`EXISTS`).
  *
- * Use this when you need to filter by relations with complex conditions not supported by QueryInput.
- * Supports both raw SQL and builder function syntax with column proxies.
+ * The subquery is correlated with the (aliased) parent table through the relations config,
+ * including `through` tables of many-to-many relations.
+ * Supports raw SQL, object queries and builder function syntax with column proxies.
+ * Object queries are also evaluated in memory, e.g. by `ability.can()`.
  *
  * @example
  * ```ts
@@ -51,6 +224,11 @@ const createColumnProxy = (): Record<string, SQL<unknown>> =>
  *   contributors: some(sql`user_id = ${userId}`),
  * })
  *
+ * // Using an object query, typed for the related table
+ * can('update', 'documents', {
+ *   contributors: some<typeof relations, 'contributors'>({ userId }),
+ * })
+ *
  * // Using builder function with operators and columns (untyped)
  * can('update', 'documents', {
  *   contributors: some(({ eq, columns }) => eq(columns.userId, userId)),
@@ -61,60 +239,54 @@ const createColumnProxy = (): Record<string, SQL<unknown>> =>
  *   author: some(schema.users, ({ eq, columns }) => eq(columns.name, 'Alice')),
  *   // columns is now type-safe with full autocomplete!
  * })
+ *
+ * // Referencing the parent row, typed with the parent table:
+ * can('read', 'posts', {
+ *   comments: some(
+ *     schema.comments,
+ *     ({ eq, columns, parent }) => eq(columns.authorId, parent.authorId),
+ *     { parent: schema.posts }
+ *   ),
+ * })
  * ```
  *
- * @param conditionOrTable - Raw SQL WHERE condition, builder function, or table reference
+ * @param conditionOrTable - Raw SQL WHERE condition, object query, builder function, or table reference
  * @param maybeCondition - Optional builder function when first param is a table
- * @returns A RAW condition object for use in ability definitions
+ * @param _options - Options of the table variant, only used for typing
+ * @returns A relation condition for use in ability definitions
  */
 export function some(
-  condition: SQL | ((builder: RelationHelperBuilder) => SQL)
-): {
-  RAW: SQL
-}
-export function some<T extends Table>(
+  condition: RelationHelperCondition
+): RelationCondition<"some">
+export function some<
+  TSchema extends TablesRelationalConfig,
+  TTableName extends keyof TSchema,
+>(
+  query: QueryInput<TSchema, TTableName>
+): RelationCondition<"some", QueryInput<TSchema, TTableName>>
+export function some(
+  query: RelationQuery
+): RelationCondition<"some", RelationQuery>
+export function some<T extends Table, TParent extends Table = Table>(
   table: T,
-
-  condition: (
-    builder: Omit<RelationHelperBuilder, "columns"> & {
-      columns: T["_"]["columns"]
-    }
-  ) => SQL
-): { RAW: SQL }
+  condition: (builder: TypedRelationHelperBuilder<T, TParent>) => SQL,
+  options?: RelationHelperOptions<TParent>
+): RelationCondition<"some">
 export function some(
-  conditionOrTable: SQL | Table | ((builder: RelationHelperBuilder) => SQL),
-  maybeCondition?: (builder: RelationHelperBuilder) => SQL
-): { RAW: SQL } {
-  // Handle overload: some(table, condition)
-  if (
-    conditionOrTable &&
-    typeof conditionOrTable === "object" &&
-    "_" in conditionOrTable &&
-    "columns" in conditionOrTable._
-  ) {
-    if (!maybeCondition) {
-      throw new Error("Condition is required when table is provided")
-    }
-    const { columns } = (conditionOrTable as unknown as Table)._
-    return { RAW: maybeCondition({ ...operators, columns }) }
-  }
-
-  // Handle overload: some(condition)
-  const condition = conditionOrTable as
-    | SQL
-    | ((builder: RelationHelperBuilder) => SQL)
-  if (typeof condition === "function") {
-    const columnProxy = createColumnProxy()
-    return { RAW: condition({ ...operators, columns: columnProxy }) }
-  }
-  return { RAW: condition }
+  conditionOrTable: unknown,
+  maybeCondition?: (builder: RelationHelperBuilder) => SQL,
+  _options?: RelationHelperOptions<Table>
+): RelationCondition<"some", unknown> {
+  return { some: toRelationFilter(conditionOrTable, maybeCondition) }
 }
 
 /**
- * Helper to create a RAW condition for "every" relation filtering.
- * Checks if ALL related records match the condition.
+ * Helper to create an "every" relation condition.
+ * Matches records where ALL related records match the condition. By default, at least one
+ * related record has to exist, pass `{ semantics: "vacuous" }` to also match records
+ * without related records (or set the `everySemantics` ability option).
  *
- * Supports both raw SQL and builder function syntax with column proxies.
+ * Supports raw SQL, object queries and builder function syntax with column proxies.
  *
  * @example
  * ```ts
@@ -123,6 +295,16 @@ export function some(
  *   comments: every(sql`status = 'approved'`)
  * })
  *
+ * // Using an object query
+ * can('update', 'documents', {
+ *   comments: every({ status: 'approved' })
+ * })
+ *
+ * // Projects without tasks can be archived as well
+ * can('archive', 'projects', {
+ *   tasks: every({ done: true }, { semantics: 'vacuous' })
+ * })
+ *
  * // Using builder function with operators
  * can('update', 'documents', {
  *   comments: every(({ eq, columns }) => eq(columns.status, 'approved'))
@@ -134,58 +316,55 @@ export function some(
  * })
  * ```
  *
- * @param conditionOrTable - Raw SQL WHERE condition, builder function, or table reference
- * @param maybeCondition - Optional builder function when first param is a table
- * @returns A RAW condition object for use in ability definitions
+ * @param conditionOrTable - Raw SQL WHERE condition, object query, builder function, or table reference
+ * @param conditionOrOptions - Builder function when first param is a table, otherwise options
+ * @param options - Options of the table variant, `parent` is only used for typing
+ * @returns A relation condition for use in ability definitions
  */
 export function every(
-  condition: SQL | ((builder: RelationHelperBuilder) => SQL)
-): {
-  RAW: SQL
-}
-export function every<T extends Table>(
+  condition: RelationHelperCondition,
+  options?: EveryOptions
+): RelationCondition<"every"> & EveryOptions
+export function every<
+  TSchema extends TablesRelationalConfig,
+  TTableName extends keyof TSchema,
+>(
+  query: QueryInput<TSchema, TTableName>,
+  options?: EveryOptions
+): RelationCondition<"every", QueryInput<TSchema, TTableName>> & EveryOptions
+export function every(
+  query: RelationQuery,
+  options?: EveryOptions
+): RelationCondition<"every", RelationQuery> & EveryOptions
+export function every<T extends Table, TParent extends Table = Table>(
   table: T,
-
-  condition: (
-    builder: Omit<RelationHelperBuilder, "columns"> & {
-      columns: T["_"]["columns"]
-    }
-  ) => SQL
-): { RAW: SQL }
+  condition: (builder: TypedRelationHelperBuilder<T, TParent>) => SQL,
+  options?: Partial<RelationHelperOptions<TParent>> & EveryOptions
+): RelationCondition<"every"> & EveryOptions
 export function every(
-  conditionOrTable: SQL | Table | ((builder: RelationHelperBuilder) => SQL),
-  maybeCondition?: (builder: RelationHelperBuilder) => SQL
-): { RAW: SQL } {
-  // Handle overload: every(table, condition)
-  if (
-    conditionOrTable &&
-    typeof conditionOrTable === "object" &&
-    "_" in conditionOrTable &&
-    "columns" in conditionOrTable._
-  ) {
-    if (!maybeCondition) {
-      throw new Error("Condition is required when table is provided")
-    }
-    const { columns } = (conditionOrTable as unknown as Table)._
-    return { RAW: maybeCondition({ ...operators, columns }) }
+  conditionOrTable: unknown,
+  conditionOrOptions?: ((builder: RelationHelperBuilder) => SQL) | EveryOptions,
+  options?: EveryOptions
+): RelationCondition<"every", unknown> & EveryOptions {
+  const [maybeCondition, everyOptions] =
+    typeof conditionOrOptions === "function"
+      ? [conditionOrOptions, options]
+      : [undefined, conditionOrOptions]
+  const condition = {
+    every: toRelationFilter(conditionOrTable, maybeCondition),
   }
 
-  // Handle overload: every(condition)
-  const condition = conditionOrTable as
-    | SQL
-    | ((builder: RelationHelperBuilder) => SQL)
-  if (typeof condition === "function") {
-    const columnProxy = createColumnProxy()
-    return { RAW: condition({ ...operators, columns: columnProxy }) }
-  }
-  return { RAW: condition }
+  return everyOptions?.semantics
+    ? { ...condition, semantics: everyOptions.semantics }
+    : condition
 }
 
 /**
- * Helper to create a RAW condition for "none" relation filtering.
- * Checks if NO related records match the condition (or exist at all).
+ * Helper to create a "none" relation condition.
+ * Matches records where NO related record matches the condition (`NOT EXISTS`),
+ * or where no related record exists at all when called without condition.
  *
- * Supports both raw SQL and builder function syntax with column proxies.
+ * Supports raw SQL, object queries and builder function syntax with column proxies.
  *
  * @example
  * ```ts
@@ -194,6 +373,11 @@ export function every(
  *   comments: none(sql`status = 'pending'`)
  * })
  *
+ * // Using an object query
+ * can('delete', 'documents', {
+ *   comments: none({ status: 'pending' })
+ * })
+ *
  * // Using builder function with operators
  * can('delete', 'documents', {
  *   comments: none(({ eq, columns }) => eq(columns.status, 'pending'))
@@ -210,55 +394,37 @@ export function every(
  * })
  * ```
  *
- * @param conditionOrTable - Raw SQL WHERE condition, builder function, table reference, or undefined
+ * @param conditionOrTable - Raw SQL WHERE condition, object query, builder function, table reference, or undefined
  * @param maybeCondition - Optional builder function when first param is a table
- * @returns A RAW condition object for use in ability definitions
+ * @param _options - Options of the table variant, only used for typing
+ * @returns A relation condition for use in ability definitions
  */
-export function none(): { RAW: SQL }
 export function none(
-  condition: SQL | ((builder: RelationHelperBuilder) => SQL)
-): {
-  RAW: SQL
-}
-export function none<T extends Table>(
+  condition?: RelationHelperCondition
+): RelationCondition<"none">
+export function none<
+  TSchema extends TablesRelationalConfig,
+  TTableName extends keyof TSchema,
+>(
+  query: QueryInput<TSchema, TTableName>
+): RelationCondition<"none", QueryInput<TSchema, TTableName>>
+export function none(
+  query: RelationQuery
+): RelationCondition<"none", RelationQuery>
+export function none<T extends Table, TParent extends Table = Table>(
   table: T,
-
-  condition?: (
-    builder: Omit<RelationHelperBuilder, "columns"> & {
-      columns: T["_"]["columns"]
-    }
-  ) => SQL
-): { RAW: SQL }
+  condition?: (builder: TypedRelationHelperBuilder<T, TParent>) => SQL,
+  options?: RelationHelperOptions<TParent>
+): RelationCondition<"none">
 export function none(
-  conditionOrTable?: SQL | Table | ((builder: RelationHelperBuilder) => SQL),
-  maybeCondition?: (builder: RelationHelperBuilder) => SQL
-): { RAW: SQL } {
-  // Handle overload: none() - no related records exist
-  if (!conditionOrTable) {
-    return { RAW: sql`1=0` as unknown as SQL }
-  }
-
-  // Handle overload: none(table, condition?)
-  if (
-    conditionOrTable &&
-    typeof conditionOrTable === "object" &&
-    "_" in conditionOrTable &&
-    "columns" in conditionOrTable._
-  ) {
-    if (!maybeCondition) {
-      return { RAW: sql`1=0` as unknown as SQL }
-    }
-    const { columns } = (conditionOrTable as unknown as Table)._
-    return { RAW: maybeCondition({ ...operators, columns }) }
+  conditionOrTable?: unknown,
+  maybeCondition?: (builder: RelationHelperBuilder) => SQL,
+  _options?: RelationHelperOptions<Table>
+): RelationCondition<"none", unknown> {
+  // none(table) without condition: no related records exist
+  if (isTable(conditionOrTable) && !maybeCondition) {
+    return { none: {} }
   }
 
-  // Handle overload: none(condition)
-  const condition = conditionOrTable as
-    | SQL
-    | ((builder: RelationHelperBuilder) => SQL)
-  if (typeof condition === "function") {
-    const columnProxy = createColumnProxy()
-    return { RAW: condition({ ...operators, columns: columnProxy }) }
-  }
-  return { RAW: condition }
+  return { none: toRelationFilter(conditionOrTable, maybeCondition) }
 }
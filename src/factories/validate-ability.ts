@@ -0,0 +1,351 @@
+import type { AnyAbility } from "@casl/ability"
+import type { Column } from "drizzle-orm"
+import { getColumns } from "drizzle-orm"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
+
+import type { ParsingQueryErrorRule } from "../query-error"
+import { ParsingQueryError, pathTo } from "../query-error"
+import { DrizzleQueryParser } from "../query-parser"
+import type { JsonSchema } from "./conditions-json-schema"
+import {
+  columnOperators,
+  COMPOUND_KEYS,
+  isOperatorOnlyColumn,
+  relationQuantifiers,
+} from "./conditions-json-schema"
+
+/**
+ * Options for `validateAbility()` and the `strict` option of the ability.
+ */
+export interface ValidateAbilityOptions {
+  /**
+   * Subject names of tables whose subject differs from the table key,
+   * e.g. `{ posts: "Article" }`.
+   */
+  subjects?: Record<string, string>
+}
+
+type Row = Record<string, unknown>
+
+type TableConfig = TablesRelationalConfig[string]
+
+interface ValidationContext {
+  relations: TablesRelationalConfig
+  rule: Omit<ParsingQueryErrorRule, "path">
+}
+
+const ALL_SUBJECTS = "all"
+const COMPOUND_KEY_SET = new Set(COMPOUND_KEYS)
+
+const parser = new DrizzleQueryParser()
+
+const isPlainObject = (value: unknown): value is Row =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null)
+
+const fail = (
+  context: ValidationContext,
+  cause: string | ParsingQueryError,
+  path: string
+) => ParsingQueryError.inRule(cause, { ...context.rule, path })
+
+function matchesType(value: unknown, type: string, schema: JsonSchema) {
+  switch (type) {
+    case "string": {
+      return (
+        typeof value === "string" ||
+        (schema.format === "date-time" && value instanceof Date)
+      )
+    }
+    case "integer": {
+      return Number.isInteger(value) || typeof value === "bigint"
+    }
+    case "number": {
+      return typeof value === "number" && Number.isFinite(value)
+    }
+    case "boolean": {
+      return typeof value === "boolean"
+    }
+    case "null": {
+      return value === null
+    }
+    case "array": {
+      return Array.isArray(value)
+    }
+    default: {
+      return isPlainObject(value)
+    }
+  }
+}
+
+/**
+ * Checks a value against the subset of JSON Schema used for column values.
+ * Objects are not checked any further, e.g. JSON path queries are validated by the parser.
+ */
+function matchesSchema(value: unknown, schema: JsonSchema): boolean {
+  const types = schema.type === undefined ? [] : [schema.type].flat()
+
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some((item) => matchesSchema(value, item))
+  ) {
+    return false
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return false
+  }
+  if (
+    types.length > 0 &&
+    !types.some((type) => matchesType(value, type, schema))
+  ) {
+    return false
+  }
+
+  const { items } = schema
+  return (
+    !items ||
+    !Array.isArray(value) ||
+    value.every((item) => matchesSchema(item, items))
+  )
+}
+
+function describeSchema(schema: JsonSchema): string {
+  if (schema.anyOf) {
+    return schema.anyOf.map(describeSchema).join(" or ")
+  }
+  if (schema.enum) {
+    return `one of ${schema.enum.join(", ")}`
+  }
+  if (schema.items) {
+    return `an array of ${describeSchema(schema.items)}`
+  }
+  if (schema.format === "date-time") {
+    return "a date"
+  }
+
+  return [schema.type ?? "any value"].flat().join(" or ")
+}
+
+/**
+ * Schema of the operand of an operator on the column, or `undefined` when the operator
+ * isn't valid for the data type of the column.
+ */
+function operandSchema(
+  column: Column,
+  operator: string
+): JsonSchema | undefined {
+  const operators = columnOperators(column)
+  return Object.hasOwn(operators, operator) ? operators[operator] : undefined
+}
+
+function validateColumn(
+  context: ValidationContext,
+  tableName: string,
+  key: string,
+  column: Column,
+  value: unknown,
+  path: string
+) {
+  const description = `"${tableName}.${key}" (${column.getSQLType()})`
+
+  if (!isPlainObject(value)) {
+    const schema = operandSchema(column, "eq")
+    if (!schema || isOperatorOnlyColumn(column)) {
+      throw fail(
+        context,
+        `${description} can only be compared with operators`,
+        path
+      )
+    }
+    if (!matchesSchema(value, schema)) {
+      throw fail(
+        context,
+        ParsingQueryError.invalidArgument(key, value, describeSchema(schema)),
+        path
+      )
+    }
+    return
+  }
+
+  for (const [operator, operand] of Object.entries(value)) {
+    const operatorPath = pathTo(path, operator)
+
+    if (operator === "not" || operator === "$not") {
+      validateColumn(context, tableName, key, column, operand, operatorPath)
+      continue
+    }
+
+    const schema = operandSchema(column, operator)
+    if (!schema) {
+      throw fail(
+        context,
+        new ParsingQueryError(
+          `Operator "${operator}" is not supported on ${description}`,
+          { code: "UNSUPPORTED_OPERATOR", operator }
+        ),
+        operatorPath
+      )
+    }
+    if (!matchesSchema(operand, schema)) {
+      throw fail(
+        context,
+        ParsingQueryError.invalidArgument(
+          operator,
+          operand,
+          describeSchema(schema)
+        ),
+        operatorPath
+      )
+    }
+  }
+}
+
+function validateRelation(
+  context: ValidationContext,
+  relation: TableConfig["relations"][string],
+  value: unknown,
+  path: string
+) {
+  // Whether a related record exists, e.g. `{ author: true }`
+  if (typeof value === "boolean") {
+    return
+  }
+
+  if (!isPlainObject(value)) {
+    throw fail(
+      context,
+      `Expected conditions or a boolean for the related "${relation.targetTableName}"`,
+      path
+    )
+  }
+
+  const quantifiers = new Set(relationQuantifiers(relation))
+  for (const [key, condition] of Object.entries(value)) {
+    if (quantifiers.has(key)) {
+      validateConditions(
+        context,
+        relation.targetTableName,
+        condition,
+        pathTo(path, key)
+      )
+    } else if (key !== "semantics" || relation.relationType !== "many") {
+      // Conditions on the related table without quantifier
+      validateConditions(
+        context,
+        relation.targetTableName,
+        { [key]: condition },
+        path
+      )
+    }
+  }
+}
+
+function validateConditions(
+  context: ValidationContext,
+  tableName: string,
+  conditions: unknown,
+  path: string
+) {
+  if (Array.isArray(conditions)) {
+    for (const [index, item] of conditions.entries()) {
+      validateConditions(context, tableName, item, pathTo(path, index))
+    }
+    return
+  }
+
+  if (!isPlainObject(conditions)) {
+    throw fail(context, "Expected an object of conditions", path)
+  }
+
+  const tableConfig = context.relations[tableName] as TableConfig
+  const columns = getColumns(tableConfig.table)
+
+  for (const [key, value] of Object.entries(conditions)) {
+    const fieldPath = pathTo(path, key)
+    const column = columns[key] as Column | undefined
+    const relation = tableConfig.relations[key]
+
+    if (COMPOUND_KEY_SET.has(key)) {
+      validateConditions(context, tableName, value, fieldPath)
+    } else if (column) {
+      validateColumn(context, tableName, key, column, value, fieldPath)
+    } else if (relation) {
+      validateRelation(context, relation, value, fieldPath)
+    } else if (key !== "RAW") {
+      throw fail(
+        context,
+        new ParsingQueryError(
+          `Unknown field "${key}", "${tableName}" has no such column or relation`,
+          { code: "UNKNOWN_FIELD" }
+        ),
+        fieldPath
+      )
+    }
+  }
+}
+
+/**
+ * Validates the conditions of every rule of the ability against the relations config:
+ * each field must be a column or relation of the subject's table, and each operator must
+ * be valid for the data type of its column and receive a value of that type.
+ *
+ * Without validation, a typo like `{ autorId: 1 }` is not noticed by the parser and may be
+ * ignored by Drizzle, which silently broadens the permission. Errors are thrown as
+ * `ParsingQueryError` with the `ruleIndex`, `subject`, `action`, `rule` and the JSON `path`
+ * to the offending key, e.g. `$.author.is.name`. RAW conditions are not validated.
+ *
+ * @example
+ * ```ts
+ * validateAbility(ability, relations)
+ * // ParsingQueryError: Rule #0 for "read" on "posts" at $.autorId: Unknown field "autorId", ...
+ * ```
+ */
+export function validateAbility(
+  ability: AnyAbility,
+  relations: TablesRelationalConfig,
+  options: ValidateAbilityOptions = {}
+): void {
+  const tableNames = new Map(
+    Object.keys(relations).map((tableName) => [
+      options.subjects?.[tableName] ?? tableName,
+      tableName,
+    ])
+  )
+
+  for (const [ruleIndex, rule] of ability.rules.entries()) {
+    const subjects = [rule.subject ?? ALL_SUBJECTS].flat()
+    const action = [rule.action].flat().join(", ")
+
+    for (const subject of subjects) {
+      if (typeof subject !== "string" || subject === ALL_SUBJECTS) {
+        continue
+      }
+
+      const context: ValidationContext = {
+        relations,
+        rule: { ruleIndex, subject, action, rule },
+      }
+      const tableName = tableNames.get(subject)
+      if (!tableName) {
+        throw fail(
+          context,
+          new ParsingQueryError(`Unknown subject "${subject}"`, {
+            code: "UNKNOWN_SUBJECT",
+          }),
+          "$"
+        )
+      }
+
+      if (rule.conditions) {
+        try {
+          parser.parse(rule.conditions as Row)
+        } catch (error) {
+          throw ParsingQueryError.inRule(error as Error, context.rule)
+        }
+        validateConditions(context, tableName, rule.conditions, "$")
+      }
+    }
+  }
+}
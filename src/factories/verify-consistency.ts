@@ -0,0 +1,310 @@
+import type { AnyAbility } from "@casl/ability"
+import type { Condition } from "@ucast/core"
+import type { Table, View } from "drizzle-orm"
+import { getColumns } from "drizzle-orm"
+import type { TablesRelationalConfig } from "drizzle-orm/relations"
+
+import { normalizeDrizzleConditions } from "./accessible-by"
+import { getDrizzleAbilityOptions } from "./create-ability"
+
+/**
+ * Minimal shape of a Drizzle database (or transaction) with the relational query builder.
+ */
+interface RelationalDatabase {
+  query: object
+  _: { relations: TablesRelationalConfig }
+}
+
+type Row = Record<string, unknown>
+
+interface RelationalQueryBuilder {
+  findMany: (config?: Record<string, unknown>) => Promise<Row[]>
+}
+
+type AbilityRule = ReturnType<AnyAbility["possibleRulesFor"]>[number]
+
+/**
+ * A record for which the in-memory interpreter and the database disagree on a rule.
+ */
+export interface ConsistencyMismatch {
+  subjectType: string
+  /** First action (or alias) the rule was found for */
+  action: string
+  /** Index of the rule in `ability.rules` */
+  ruleIndex: number
+  conditions: unknown
+  /** Operators of the rule as parsed by the interpreter (e.g. `ne` is reported as `notEquals`) */
+  operators: string[]
+  /** Record as loaded from the database, including the relations used by the rule */
+  record: Row
+  /** Whether `rule.matchesConditions(record)` is true */
+  inMemory: boolean
+  /** Whether `db.query[subjectType].findMany({ where })` returns the record */
+  inDatabase: boolean
+}
+
+/**
+ * Result of `verifyConsistency()`.
+ */
+export interface ConsistencyReport {
+  consistent: boolean
+  /** Number of conditional rules compared */
+  checkedRules: number
+  /** Number of rule and record pairs compared */
+  checkedRecords: number
+  mismatches: ConsistencyMismatch[]
+  /** Mismatches grouped by each operator of the mismatching rule */
+  byOperator: Record<string, ConsistencyMismatch[]>
+}
+
+const isPlainObject = (value: unknown): value is Row =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null)
+
+const RELATION_QUANTIFIERS = new Set(["some", "every", "none", "is", "isNot"])
+
+interface RelationTree {
+  [relationName: string]: RelationTree
+}
+
+/**
+ * Collects the relations referenced by a condition, so that the records
+ * can be loaded with everything the in-memory interpreter needs.
+ */
+function collectRelations(
+  relations: TablesRelationalConfig,
+  tableName: string,
+  query: unknown,
+  tree: RelationTree
+): void {
+  if (Array.isArray(query)) {
+    for (const entry of query) {
+      collectRelations(relations, tableName, entry, tree)
+    }
+    return
+  }
+
+  if (!isPlainObject(query)) {
+    return
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    if (key === "AND" || key === "OR" || key === "NOT") {
+      collectRelations(relations, tableName, value, tree)
+      continue
+    }
+
+    const relation = relations[tableName]?.relations[key]
+    if (!relation) {
+      continue
+    }
+
+    tree[key] ??= {}
+    if (!isPlainObject(value)) {
+      continue
+    }
+
+    const quantifiers = Object.keys(value).filter((name) =>
+      RELATION_QUANTIFIERS.has(name)
+    )
+    const operands =
+      quantifiers.length > 0 ? quantifiers.map((name) => value[name]) : [value]
+
+    for (const operand of operands) {
+      collectRelations(relations, relation.targetTableName, operand, tree[key])
+    }
+  }
+}
+
+function toWithConfig(tree: RelationTree): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(tree).map(([relationName, nested]) => [
+      relationName,
+      Object.keys(nested).length > 0 ? { with: toWithConfig(nested) } : true,
+    ])
+  )
+}
+
+/**
+ * Identifies a loaded record by its column values, relations are ignored.
+ */
+function createRowKey(table: Table | View): (row: Row) => string {
+  const columnNames = Object.keys(getColumns(table))
+
+  return (row) =>
+    JSON.stringify(
+      columnNames.map((columnName) => row[columnName]),
+      (_, value: unknown) =>
+        typeof value === "bigint" ? value.toString() : value
+    )
+}
+
+function collectOperators(node: unknown, operators: Set<string>): void {
+  if (Array.isArray(node)) {
+    for (const entry of node) {
+      collectOperators(entry, operators)
+    }
+    return
+  }
+
+  if (typeof node !== "object" || node === null || !("operator" in node)) {
+    return
+  }
+
+  const { operator, value } = node as Condition
+  // `and` is the implicit conjunction of several fields or operators
+  if (operator !== "and") {
+    operators.add(operator)
+  }
+  collectOperators(value, operators)
+}
+
+/**
+ * Returns the conditional rules which apply to `subjectType`,
+ * each with the first action it was found for.
+ */
+function conditionalRulesOf(
+  ability: AnyAbility,
+  subjectType: string
+): { rule: AbilityRule; action: string }[] {
+  const rules = new Map<AbilityRule, string>()
+
+  for (const action of ability.actionsFor(subjectType)) {
+    for (const rule of ability.possibleRulesFor(action, subjectType)) {
+      if (rule.conditions && !rules.has(rule)) {
+        rules.set(rule, action)
+      }
+    }
+  }
+
+  return [...rules].map(([rule, action]) => ({ rule, action }))
+}
+
+interface SubjectResult {
+  checkedRules: number
+  checkedRecords: number
+  mismatches: ConsistencyMismatch[]
+}
+
+async function verifySubject(
+  ability: AnyAbility,
+  db: RelationalDatabase,
+  subjectType: string
+): Promise<SubjectResult> {
+  const { relations } = db._
+  const tableConfig = relations[subjectType]
+  const queryBuilder = (
+    db.query as Partial<Record<string, RelationalQueryBuilder>>
+  )[subjectType]
+
+  if (!tableConfig || !queryBuilder) {
+    throw new Error(
+      `Cannot verify "${subjectType}" because it is not a table of the relations config`
+    )
+  }
+
+  const rules = conditionalRulesOf(ability, subjectType)
+  const { everySemantics } = getDrizzleAbilityOptions(ability)
+  const tree: RelationTree = {}
+  for (const { rule } of rules) {
+    collectRelations(relations, subjectType, rule.conditions, tree)
+  }
+
+  const [records = [], ...matchedRecords] = await Promise.all([
+    queryBuilder.findMany({ with: toWithConfig(tree) }),
+    ...rules.map(({ rule }) =>
+      queryBuilder.findMany({
+        where: normalizeDrizzleConditions(rule.conditions, {
+          everySemantics,
+          relations,
+        }),
+      })
+    ),
+  ])
+
+  const keyOf = createRowKey(tableConfig.table)
+  const mismatches: ConsistencyMismatch[] = []
+
+  for (const [index, { rule, action }] of rules.entries()) {
+    const matchedKeys = new Set(matchedRecords[index]?.map(keyOf))
+    const operators = new Set<string>()
+    collectOperators(rule.ast, operators)
+
+    for (const record of records) {
+      const inMemory = rule.matchesConditions(record)
+      const inDatabase = matchedKeys.has(keyOf(record))
+
+      if (inMemory !== inDatabase) {
+        mismatches.push({
+          subjectType,
+          action,
+          ruleIndex: (ability.rules as unknown[]).indexOf(rule.origin),
+          conditions: rule.conditions,
+          operators: [...operators],
+          record,
+          inMemory,
+          inDatabase,
+        })
+      }
+    }
+  }
+
+  return {
+    checkedRules: rules.length,
+    checkedRecords: rules.length * records.length,
+    mismatches,
+  }
+}
+
+/**
+ * Compares the in-memory evaluation of every conditional rule (the interpreter used by
+ * `ability.can()`) with the records returned by `db.query[subject].findMany({ where })`
+ * for the same conditions, and reports each record on which both disagree.
+ *
+ * Meant for tests and CI: all records of the given subjects are loaded,
+ * together with the relations referenced by the rules.
+ * Subjects are table keys of the relations config, used as subject names.
+ *
+ * @example
+ * ```ts
+ * import { verifyConsistency } from "@noxify/casl-drizzle"
+ *
+ * const report = await verifyConsistency(ability, db, ["posts", "comments"])
+ *
+ * expect(report.mismatches).toStrictEqual([])
+ *
+ * // e.g. { notEquals: [...], RAW: [...] }
+ * console.log(Object.keys(report.byOperator))
+ * ```
+ */
+export async function verifyConsistency(
+  ability: AnyAbility,
+  db: RelationalDatabase,
+  subjects: readonly string[]
+): Promise<ConsistencyReport> {
+  const results = await Promise.all(
+    subjects.map((subjectType) => verifySubject(ability, db, subjectType))
+  )
+  const mismatches = results.flatMap((result) => result.mismatches)
+
+  const byOperator: Record<string, ConsistencyMismatch[]> = {}
+  for (const mismatch of mismatches) {
+    for (const operator of mismatch.operators) {
+      byOperator[operator] ??= []
+      byOperator[operator].push(mismatch)
+    }
+  }
+
+  return {
+    consistent: mismatches.length === 0,
+    checkedRules: results.reduce((sum, result) => sum + result.checkedRules, 0),
+    checkedRecords: results.reduce(
+      (sum, result) => sum + result.checkedRecords,
+      0
+    ),
+    mismatches,
+    byOperator,
+  }
+}
@@ -0,0 +1,157 @@
+import type { AnyAbility } from "@casl/ability"
+import type {
+  DBQueryConfig,
+  TablesRelationalConfig,
+} from "drizzle-orm/relations"
+
+import type { AccessibleQueryOptions } from "./accessible-query"
+import { accessibleQuery } from "./accessible-query"
+
+/**
+ * Options for `withAbility()`.
+ */
+export interface WithAbilityOptions<
+  TTableName extends string = string,
+> extends AccessibleQueryOptions<TTableName> {
+  /**
+   * Action used to scope every relational query.
+   * @default "read"
+   */
+  action?: string
+}
+
+/**
+ * Minimal shape of a Drizzle database (or transaction) with the relational query builder.
+ */
+interface RelationalDatabase {
+  query: object
+  _: { relations: TablesRelationalConfig }
+}
+
+/**
+ * A database client whose `db.query.<table>.findMany/findFirst` calls are always
+ * restricted to the rows permitted by the wrapped ability.
+ */
+export type ScopedDatabase<TDatabase> = TDatabase & {
+  /**
+   * Returns the original, unscoped database client.
+   * Only meant for system jobs that deliberately bypass permission checks.
+   */
+  $unscoped: () => TDatabase
+}
+
+const SCOPED_METHODS = new Set(["findMany", "findFirst"])
+
+function scopeQueryBuilder(
+  builder: object,
+  tableName: string,
+  db: RelationalDatabase,
+  ability: AnyAbility,
+  options: WithAbilityOptions
+): object {
+  return new Proxy(builder, {
+    get(target, prop) {
+      const value: unknown = Reflect.get(target, prop, target)
+
+      if (typeof value !== "function") {
+        return value
+      }
+
+      if (typeof prop !== "string" || !SCOPED_METHODS.has(prop)) {
+        return value.bind(target)
+      }
+
+      return (config?: DBQueryConfig) =>
+        value.call(
+          target,
+          accessibleQuery(
+            ability,
+            options.action ?? "read",
+            db._.relations,
+            tableName,
+            config,
+            options
+          )
+        )
+    },
+  })
+}
+
+/**
+ * Wraps a Drizzle database client so that every relational query is permission-scoped.
+ *
+ * `db.query.<table>.findMany()` and `db.query.<table>.findFirst()` always AND the conditions
+ * of `accessibleBy(ability, action)` for the table's subject into the caller's `where`.
+ * Relations loaded via `with` are scoped the same way (see `accessibleQuery()`).
+ * The subject is the table key unless it is remapped via `options.subjects`.
+ * Transactions started through the wrapper receive a scoped transaction client as well.
+ *
+ * Like `accessibleBy`, a query for a subject without any matching rule throws a `ForbiddenError`.
+ *
+ * @example
+ * ```ts
+ * import { withAbility } from "@noxify/casl-drizzle"
+ *
+ * const scopedDb = withAbility(db, ability)
+ *
+ * // Only returns posts the ability allows to "read"
+ * const posts = await scopedDb.query.posts.findMany({ where: { published: true } })
+ *
+ * // Explicit escape hatch for system jobs
+ * const allPosts = await scopedDb.$unscoped().query.posts.findMany()
+ * ```
+ */
+export function withAbility<TDatabase extends RelationalDatabase>(
+  db: TDatabase,
+  ability: AnyAbility,
+  options: WithAbilityOptions<Extract<keyof TDatabase["query"], string>> = {}
+): ScopedDatabase<TDatabase> {
+  const scopedQuery = new Proxy(db.query, {
+    get(target, prop) {
+      const builder: unknown = Reflect.get(target, prop, target)
+
+      if (
+        typeof prop !== "string" ||
+        typeof builder !== "object" ||
+        builder === null
+      ) {
+        return builder
+      }
+
+      return scopeQueryBuilder(builder, prop, db, ability, options)
+    },
+  })
+
+  return new Proxy(db, {
+    get(target, prop) {
+      if (prop === "query") {
+        return scopedQuery
+      }
+
+      if (prop === "$unscoped") {
+        return () => target
+      }
+
+      const value: unknown = Reflect.get(target, prop, target)
+
+      if (typeof value !== "function") {
+        return value
+      }
+
+      if (prop === "transaction") {
+        return (
+          runInTransaction: (tx: RelationalDatabase) => unknown,
+          ...rest: unknown[]
+        ) =>
+          value.call(
+            target,
+            (tx: RelationalDatabase) =>
+              runInTransaction(withAbility(tx, ability, options)),
+            ...rest
+          )
+      }
+
+      return value.bind(target)
+    },
+  }) as ScopedDatabase<TDatabase>
+}
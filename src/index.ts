@@ -3,21 +3,42 @@ import { AbilityBuilder } from "@casl/ability"
 
 import type { DrizzleQueryFactory } from "./runtime"
 import { createAbilityFactory } from "./runtime"
-import type { DefineDrizzleAbility, DrizzleAbility } from "./types"
+import type {
+  DefineDrizzleAbility,
+  DrizzleAbility,
+  DrizzleAbilityOptions,
+} from "./types"
 
 export {
   accessibleBy,
+  accessibleColumns,
+  accessibleQuery,
+  accessibleSQL,
+  analyzeAccess,
+  assertCanCreate,
+  authorizedDelete,
+  authorizedUpdate,
+  conditionsJsonSchema,
+  NotFoundError,
   ParsingQueryError,
   drizzleQuery,
+  explain,
+  filterInsertable,
+  getAccessKind,
+  raw,
   some,
   every,
   none,
+  validateAbility,
+  verifyConsistency,
+  withAbility,
 } from "./runtime"
 export type * from "./runtime"
 
 /**
  * Factory function to create a DrizzleAbility instance.
  * Use with AbilityBuilder for type-safe ability definitions.
+ * Accepts `DrizzleAbilityOptions`, e.g. `{ rawConditions: "deny" }`.
  *
  * @example
  * ```ts
@@ -39,23 +60,26 @@ export type * from "./runtime"
  * )
  * ```
  */
-export function createDrizzleAbilityFor(): new (
-  ...args: ConstructorParameters<typeof Ability>
-) => AnyAbility
+export function createDrizzleAbilityFor(
+  options?: DrizzleAbilityOptions
+): new (...args: ConstructorParameters<typeof Ability>) => AnyAbility
 export function createDrizzleAbilityFor<
   TSubject,
   TActions extends string = string,
->(): new (
+>(
+  options?: DrizzleAbilityOptions
+): new (
   ...args: ConstructorParameters<typeof Ability>
 ) => DrizzleAbility<TSubject, TActions>
-export function createDrizzleAbilityFor() {
+export function createDrizzleAbilityFor(options?: DrizzleAbilityOptions) {
   // oxlint-disable-next-line typescript/no-explicit-any
-  return createAbilityFactory<string, DrizzleQueryFactory>() as any
+  return createAbilityFactory<string, DrizzleQueryFactory>(options) as any
 }
 
 /**
  * Create a type-safe ability with subject and action-specific conditions.
  * Use this with a pre-defined ability type for full type inference.
+ * Accepts `DrizzleAbilityOptions` as second argument, e.g. `{ rawConditions: "deny" }`.
  *
  * @template TAbility - A DrizzleAbility type (includes both actions and subjects)
  *
@@ -92,12 +116,13 @@ export function createDrizzleAbility<
       subject: S,
       conditions?: TSubject[S]
     ) => void
-  ) => void
+  ) => void,
+  options?: DrizzleAbilityOptions
 ): DrizzleAbility<TSubject, TActions> {
   type AppAbility = DefineDrizzleAbility<TSubject, TActions>
 
   const builder = new AbilityBuilder<AppAbility>(
-    createAbilityFactory<string, DrizzleQueryFactory>()
+    createAbilityFactory<string, DrizzleQueryFactory>(options)
   )
 
   type Can = <S extends keyof TSubject & string>(
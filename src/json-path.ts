@@ -0,0 +1,334 @@
+import type { SQL, SQLWrapper } from "drizzle-orm"
+import { and, sql } from "drizzle-orm"
+
+import { ParsingQueryError } from "./query-error"
+
+/**
+ * Value of a `json` / `jsonb` column, or of a path within it.
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
+/**
+ * Condition on the value at a path of a `json` / `jsonb` column, used as
+ * `{ metadata: { json: { path: ["visibility"], eq: "public" } } }`.
+ * All given operators must match, a missing path matches none of them (like SQL `NULL`).
+ */
+export interface JsonPathQuery {
+  /**
+   * Keys (or array indexes) leading to the value, e.g. `["settings", "theme"]`
+   * or `"settings.theme"`. Defaults to the whole document.
+   */
+  path?: string | string[]
+  eq?: JsonValue
+  ne?: JsonValue
+  /** Compared like `jsonb` values, e.g. any number is less than any boolean */
+  gt?: string | number
+  gte?: string | number
+  lt?: string | number
+  lte?: string | number
+  /** Like `@>`: the value contains the given JSON document */
+  contains?: JsonValue
+  /** Like `?`: the value is an object with the key or an array with the string element */
+  hasKey?: string
+}
+
+/**
+ * `JsonPathQuery` with the path split into keys.
+ * @internal
+ */
+export type JsonPathCondition = Omit<JsonPathQuery, "path"> & { path: string[] }
+
+type JsonPathOperator = Exclude<keyof JsonPathQuery, "path">
+
+const SQL_OPERATORS: Record<JsonPathOperator, string> = {
+  eq: "=",
+  ne: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  contains: "@>",
+  hasKey: "?",
+}
+
+const JSON_PATH_OPERATORS = Object.keys(SQL_OPERATORS) as JsonPathOperator[]
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null)
+
+const isNullish = (value: unknown): value is null | undefined =>
+  value === null || value === undefined
+
+const COMPARISONS = new Set<JsonPathOperator>(["gt", "gte", "lt", "lte"])
+
+const isComparable = (value: unknown): value is string | number =>
+  typeof value === "string" ||
+  (typeof value === "number" && Number.isFinite(value))
+
+function validateOperand(operator: JsonPathOperator, operand: unknown) {
+  if (operator === "hasKey" && typeof operand !== "string") {
+    throw ParsingQueryError.invalidArgument(operator, operand, "string")
+  }
+
+  if (COMPARISONS.has(operator) && !isComparable(operand)) {
+    throw ParsingQueryError.invalidArgument(
+      operator,
+      operand,
+      "string or number"
+    )
+  }
+
+  if (operand === undefined) {
+    throw ParsingQueryError.invalidArgument(operator, operand, "a JSON value")
+  }
+}
+
+/**
+ * Validates a JSON path query and splits its path into keys.
+ * @internal
+ */
+export function parseJsonPathQuery(
+  operatorName: string,
+  value: unknown
+): JsonPathCondition {
+  if (!isPlainObject(value)) {
+    throw ParsingQueryError.invalidArgument(
+      operatorName,
+      value,
+      "a JSON path query"
+    )
+  }
+
+  const { path = [], ...operators } = value
+  const keys = typeof path === "string" ? path.split(".") : path
+
+  if (
+    !Array.isArray(keys) ||
+    keys.some((key) => typeof key !== "string" || key === "")
+  ) {
+    throw ParsingQueryError.invalidArgument(
+      "path",
+      path,
+      "a dot-separated string or an array of keys"
+    )
+  }
+
+  const entries = Object.entries(operators)
+  if (entries.length === 0) {
+    throw new ParsingQueryError(
+      `"${operatorName}" expects at least one of ${JSON_PATH_OPERATORS.join(", ")}`,
+      { operator: operatorName }
+    )
+  }
+
+  for (const [operator, operand] of entries) {
+    if (!Object.hasOwn(SQL_OPERATORS, operator)) {
+      throw new ParsingQueryError(
+        `Unknown operator "${operator}" in "${operatorName}", expected one of ${JSON_PATH_OPERATORS.join(", ")}`,
+        { code: "UNKNOWN_OPERATOR", operator }
+      )
+    }
+    validateOperand(operator as JsonPathOperator, operand)
+  }
+
+  return { ...operators, path: keys as string[] } as JsonPathCondition
+}
+
+/**
+ * Compiles a JSON path condition on `column` into Postgres JSON SQL.
+ * The column is cast to `jsonb`, so that `json` columns support all operators as well.
+ * @internal
+ */
+export function jsonPathToSQL(
+  column: SQLWrapper,
+  condition: JsonPathCondition
+): SQL {
+  const document =
+    condition.path.length === 0
+      ? sql`(${column})::jsonb`
+      : sql`jsonb_extract_path((${column})::jsonb, ${sql.join(
+          condition.path.map((key) => sql`${key}`),
+          sql`, `
+        )})`
+
+  const filters = JSON_PATH_OPERATORS.filter((operator) =>
+    Object.hasOwn(condition, operator)
+  ).map((operator) => {
+    const operand = condition[operator]
+    const value =
+      operator === "hasKey"
+        ? sql`${operand}`
+        : sql`${JSON.stringify(operand)}::jsonb`
+
+    return sql`${document} ${sql.raw(SQL_OPERATORS[operator])} ${value}`
+  })
+
+  return and(...filters) as SQL
+}
+
+function getPathValue(document: unknown, path: string[]): unknown {
+  let value = document
+
+  for (const key of path) {
+    if (Array.isArray(value) && /^-?\d+$/u.test(key)) {
+      const index = Number(key)
+      value = value.at(index)
+    } else if (isPlainObject(value) && Object.hasOwn(value, key)) {
+      value = value[key]
+    } else {
+      return undefined
+    }
+  }
+
+  return value
+}
+
+function equalJson(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => equalJson(item, b[index]))
+    )
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && equalJson(a[key], b[key]))
+    )
+  }
+
+  return a === b
+}
+
+// Ordering of jsonb values of different types
+const jsonTypeRank = (value: unknown): number => {
+  if (value === null) {
+    return 0
+  }
+  if (Array.isArray(value)) {
+    return 4
+  }
+
+  return ["string", "number", "boolean", "object"].indexOf(typeof value) + 1
+}
+
+function compareJson(a: unknown, b: string | number): number {
+  const rankDifference = jsonTypeRank(a) - jsonTypeRank(b)
+  if (rankDifference !== 0) {
+    return rankDifference
+  }
+
+  if (a === b) {
+    return 0
+  }
+
+  return (a as string | number) < b ? -1 : 1
+}
+
+/**
+ * Matches `@>`: objects contain subsets of their pairs, arrays contain arrays of
+ * contained elements, and a top-level array contains its scalar elements.
+ */
+function containsJson(a: unknown, b: unknown, topLevel: boolean): boolean {
+  if (isPlainObject(b)) {
+    return (
+      isPlainObject(a) &&
+      Object.entries(b).every(
+        ([key, value]) =>
+          Object.hasOwn(a, key) && containsJson(a[key], value, false)
+      )
+    )
+  }
+
+  if (Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      b.every((expected) =>
+        a.some((item) => containsJson(item, expected, false))
+      )
+    )
+  }
+
+  if (topLevel && Array.isArray(a)) {
+    return a.includes(b)
+  }
+
+  return a === b
+}
+
+function hasKey(value: unknown, key: string): boolean {
+  if (isPlainObject(value)) {
+    return Object.hasOwn(value, key)
+  }
+
+  if (Array.isArray(value)) {
+    return value.includes(key)
+  }
+
+  return value === key
+}
+
+function matchesOperator(
+  value: unknown,
+  operator: JsonPathOperator,
+  operand: unknown
+): boolean {
+  switch (operator) {
+    case "eq": {
+      return equalJson(value, operand)
+    }
+    case "ne": {
+      return !equalJson(value, operand)
+    }
+    case "contains": {
+      return containsJson(value, operand, true)
+    }
+    case "hasKey": {
+      return hasKey(value, operand as string)
+    }
+    default: {
+      const order = compareJson(value, operand as string | number)
+      return {
+        gt: order > 0,
+        gte: order >= 0,
+        lt: order < 0,
+        lte: order <= 0,
+      }[operator]
+    }
+  }
+}
+
+/**
+ * Evaluates a JSON path condition on the value of a `json` / `jsonb` column.
+ * Returns `null` (UNKNOWN) when the column is `NULL` or the path is missing.
+ * @internal
+ */
+export function evaluateJsonPath(
+  document: unknown,
+  condition: JsonPathCondition
+): boolean | null {
+  const value = isNullish(document)
+    ? undefined
+    : getPathValue(document, condition.path)
+
+  if (value === undefined) {
+    return null
+  }
+
+  return JSON_PATH_OPERATORS.every(
+    (operator) =>
+      !Object.hasOwn(condition, operator) ||
+      matchesOperator(value, operator, condition[operator])
+  )
+}
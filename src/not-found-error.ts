@@ -0,0 +1,14 @@
+export class NotFoundError extends Error {
+  override name = "NotFoundError"
+
+  /** CASL subject type of the missing record */
+  subjectType?: string
+
+  static forSubject(subjectType: string) {
+    const error = new this(
+      `No "${subjectType}" record matches the given condition`
+    )
+    error.subjectType = subjectType
+    return error
+  }
+}
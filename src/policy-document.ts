@@ -0,0 +1,139 @@
+import type { Node } from "yaml"
+import { isMap, isScalar, isSeq, LineCounter, parseDocument } from "yaml"
+
+import { PolicyError } from "./policy-error"
+
+/**
+ * Position of a value within a policy file. Lines and columns start at 1.
+ */
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+type Path = readonly (string | number)[]
+
+/**
+ * Parsed policy file, which remembers the position of every value.
+ * @internal
+ */
+export interface PolicyDocument {
+  value: unknown
+  /** Position of the value at `path`, or of its closest ancestor */
+  positionOf: (path: Path) => SourcePosition | undefined
+}
+
+const pathKey = (path: Path) => path.join("\u0000")
+
+// V8 reports the offset of JSON syntax errors, e.g. "... in JSON at position 42"
+const JSON_ERROR_POSITION = /at position (?<offset>\d+)/u
+
+/**
+ * Maps the paths of a parsed YAML document to the positions of their keys
+ * (or of the items of sequences).
+ */
+class PositionMap {
+  private readonly positions = new Map<string, SourcePosition>()
+  private readonly lineCounter: LineCounter
+  private readonly fileName?: string
+
+  constructor(lineCounter: LineCounter, fileName?: string) {
+    this.lineCounter = lineCounter
+    this.fileName = fileName
+  }
+
+  positionAt(offset: number): SourcePosition {
+    const { line, col } = this.lineCounter.linePos(offset)
+    return { line, column: col }
+  }
+
+  fail(message: string, offset: number, path: Path = []): never {
+    throw PolicyError.at(message, {
+      fileName: this.fileName,
+      ...this.positionAt(offset),
+      path: path.map(String),
+    })
+  }
+
+  record(node: Node | null | undefined, path: Path, offset?: number) {
+    const start = offset ?? node?.range?.[0]
+    if (start !== undefined) {
+      this.positions.set(pathKey(path), this.positionAt(start))
+    }
+
+    if (isMap(node)) {
+      for (const { key, value } of node.items) {
+        if (!isScalar(key)) {
+          this.fail(
+            "Keys must be plain or quoted scalars",
+            node.range?.[0] ?? 0,
+            path
+          )
+        }
+        const name = String(key.value)
+        if (name === "__proto__") {
+          this.fail(`Invalid key "${name}"`, key.range?.[0] ?? 0, path)
+        }
+        this.record(value as Node | null, [...path, name], key.range?.[0])
+      }
+    } else if (isSeq(node)) {
+      for (const [index, item] of node.items.entries()) {
+        this.record(item as Node | null, [...path, index])
+      }
+    }
+  }
+
+  positionOf(path: Path): SourcePosition | undefined {
+    for (let { length } = path; length >= 0; length -= 1) {
+      const position = this.positions.get(pathKey(path.slice(0, length)))
+      if (position) {
+        return position
+      }
+    }
+  }
+}
+
+/**
+ * Parses a policy file written in YAML 1.2 or JSON with the `yaml` package.
+ * Syntax errors, and warnings like unresolved tags, are thrown as `PolicyError`s
+ * with the position of the error. JSON documents are parsed strictly by `JSON.parse()`.
+ * @internal
+ */
+export function parsePolicyDocument(
+  source: string,
+  options: { format: "yaml" | "json"; fileName?: string }
+): PolicyDocument {
+  const lineCounter = new LineCounter()
+  const positions = new PositionMap(lineCounter, options.fileName)
+  const document = parseDocument(source, {
+    lineCounter,
+    prettyErrors: false,
+    schema: options.format === "json" ? "json" : "core",
+    uniqueKeys: true,
+  })
+
+  const [problem] = [...document.errors, ...document.warnings]
+  if (problem) {
+    positions.fail(problem.message, problem.pos[0])
+  }
+
+  positions.record(document.contents, [])
+
+  let value: unknown
+  if (options.format === "json") {
+    try {
+      value = JSON.parse(source)
+    } catch (error) {
+      const { message } = error as SyntaxError
+      const offset = JSON_ERROR_POSITION.exec(message)?.groups?.offset
+      positions.fail(message, offset === undefined ? 0 : Number(offset))
+    }
+  } else {
+    value = document.toJS()
+  }
+
+  return {
+    value,
+    positionOf: (path) => positions.positionOf(path),
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Location of an error within a policy file. Lines and columns start at 1.
+ */
+export interface PolicyErrorLocation {
+  fileName?: string
+  line?: number
+  column?: number
+  /** Keys leading to the offending value, e.g. `["editor", "posts", "update"]` */
+  path?: string[]
+}
+
+export class PolicyError extends Error {
+  override name = "PolicyError"
+
+  /** Name of the policy file, as passed to `loadPolicy()` */
+  fileName?: string
+  line?: number
+  column?: number
+  path: string[] = []
+
+  static at(message: string, location: PolicyErrorLocation) {
+    const position = [
+      location.fileName ?? "<policy>",
+      location.line,
+      location.column,
+    ]
+      .filter((part) => part !== undefined)
+      .join(":")
+    const error = new this(`${position}: ${message}`)
+    error.fileName = location.fileName
+    error.line = location.line
+    error.column = location.column
+    error.path = location.path ?? []
+    return error
+  }
+}
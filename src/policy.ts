@@ -0,0 +1,12 @@
+/**
+ * Entry point of `@noxify/casl-drizzle/policy`, kept apart from the main entry so that
+ * only consumers of `loadPolicy()` load the `yaml` parser.
+ */
+export { loadPolicy } from "./factories/load-policy"
+export type {
+  LoadPolicyOptions,
+  Policy,
+  PolicyRule,
+} from "./factories/load-policy"
+export { PolicyError } from "./policy-error"
+export type { PolicyErrorLocation } from "./policy-error"
@@ -0,0 +1,410 @@
+import type { CompoundCondition, Condition, FieldCondition } from "@ucast/core"
+import { createInterpreter, ITSELF } from "@ucast/core"
+import type {
+  Column,
+  SQL,
+  SQLWrapper,
+  Table,
+  TablesRelationalConfig,
+  View,
+} from "drizzle-orm"
+import {
+  aliasedTable,
+  and,
+  arrayContained,
+  arrayContains,
+  arrayOverlaps,
+  EmptyFilter,
+  eq,
+  exists,
+  getColumns,
+  getTableAsAliasSQL,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  isSQLWrapper,
+  like,
+  lt,
+  lte,
+  ne,
+  not,
+  notExists,
+  operators,
+  or,
+  relationToSQL,
+  sql,
+} from "drizzle-orm"
+
+import type { JsonPathCondition } from "./json-path"
+import { jsonPathToSQL } from "./json-path"
+import { ParsingQueryError } from "./query-error"
+import { DrizzleQueryParser } from "./query-parser"
+
+/**
+ * Table the conditions are compiled against.
+ * @internal
+ */
+export interface CompileScope {
+  /** Table (or alias) used to reference columns */
+  table: Table | View
+  /** Key of the table within the relations config */
+  tableName: string
+  relations: TablesRelationalConfig
+  /** Nesting level of correlated subqueries, used to create unique aliases */
+  depth: number
+  /** Table (or alias) of the enclosing query within correlated subqueries */
+  parent?: Table | View
+}
+
+type SqlInterpreter<TCondition extends Condition = Condition> = (
+  condition: TCondition,
+  scope: CompileScope,
+  context: { interpret: (condition: Condition, scope: CompileScope) => SQL }
+) => SQL
+
+// oxlint-disable-next-line typescript/no-explicit-any
+type AnySqlInterpreter = SqlInterpreter<any>
+
+type RawCondition =
+  | SQLWrapper
+  | ((
+      table: Table | View,
+      ops: typeof operators,
+      parent?: Table | View
+    ) => SQLWrapper | EmptyFilter)
+
+const TRUE = sql`true`
+const FALSE = sql`false`
+
+const parser = new DrizzleQueryParser()
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null)
+
+const escapeLike = (value: string): string =>
+  value.replaceAll(/[\\%_]/gu, String.raw`\$&`)
+
+function getColumn(scope: CompileScope, field: string): Column {
+  const column = getColumns(scope.table)[field] as Column | undefined
+
+  if (!column) {
+    throw new ParsingQueryError(
+      `Unknown column "${field}" on table "${scope.tableName}"`,
+      { code: "UNKNOWN_FIELD" }
+    )
+  }
+
+  return column
+}
+
+function getRelation(scope: CompileScope, field: string) {
+  return scope.relations[scope.tableName]?.relations[field]
+}
+
+function toRawSQL(value: unknown, scope: CompileScope): SQL {
+  const rawCondition = value as RawCondition
+  const result =
+    typeof rawCondition === "function"
+      ? rawCondition(scope.table, operators, scope.parent)
+      : rawCondition
+
+  if (result === EmptyFilter) {
+    return TRUE
+  }
+
+  if (!isSQLWrapper(result)) {
+    throw ParsingQueryError.invalidArgument("RAW", value, "an SQL expression")
+  }
+
+  return result.getSQL()
+}
+
+/**
+ * Builds a correlated subquery selecting the related records of `field`.
+ * `buildFilter` receives the scope of the (aliased) related table.
+ */
+function relatedRecords(
+  scope: CompileScope,
+  field: string,
+  buildFilter?: (relatedScope: CompileScope) => SQL
+): SQL {
+  const relation = getRelation(scope, field)
+
+  if (!relation) {
+    throw new ParsingQueryError(
+      `Unknown relation "${field}" on table "${scope.tableName}"`,
+      { code: "UNKNOWN_FIELD" }
+    )
+  }
+
+  const targetTable = aliasedTable(relation.targetTable, `cr${scope.depth}`)
+  const throughTable = relation.throughTable
+    ? aliasedTable(relation.throughTable, `crt${scope.depth}`)
+    : undefined
+  const { filter: relationFilter, joinCondition } = relationToSQL(
+    relation,
+    scope.table,
+    targetTable,
+    throughTable
+  )
+  const filter = and(
+    relationFilter,
+    buildFilter?.({
+      table: targetTable,
+      tableName: relation.targetTableName,
+      relations: scope.relations,
+      depth: scope.depth + 1,
+      parent: scope.table,
+    })
+  )
+  const where = filter ? sql` where ${filter}` : sql``
+
+  return throughTable
+    ? sql`(select 1 from ${getTableAsAliasSQL(targetTable)} inner join ${getTableAsAliasSQL(throughTable)} on ${joinCondition}${where})`
+    : sql`(select 1 from ${getTableAsAliasSQL(targetTable)}${where})`
+}
+
+const compileNested =
+  (condition: Condition, interpret: (c: Condition, s: CompileScope) => SQL) =>
+  (relatedScope: CompileScope): SQL =>
+    interpret(condition, relatedScope)
+
+const eqOperator: SqlInterpreter<FieldCondition> = (
+  condition,
+  scope,
+  { interpret }
+) => {
+  const { field, value } = condition
+
+  if (getRelation(scope, field) && !getColumns(scope.table)[field]) {
+    if (typeof value === "boolean") {
+      return (value ? exists : notExists)(relatedRecords(scope, field))
+    }
+
+    if (!isPlainObject(value)) {
+      throw ParsingQueryError.invalidArgument(
+        field,
+        value,
+        "a query for nested relation"
+      )
+    }
+
+    const nested = parser.parse(value)
+    return exists(
+      relatedRecords(scope, field, compileNested(nested, interpret))
+    )
+  }
+
+  const column = getColumn(scope, field)
+  return value === null ? isNull(column) : eq(column, value)
+}
+
+const notEquals: SqlInterpreter<FieldCondition> = (condition, scope) => {
+  const column = getColumn(scope, condition.field)
+  return condition.value === null
+    ? isNotNull(column)
+    : ne(column, condition.value)
+}
+
+const within: SqlInterpreter<FieldCondition<unknown[]>> = (condition, scope) =>
+  inArray(getColumn(scope, condition.field), condition.value)
+
+const comparison =
+  (compare: typeof lt): SqlInterpreter<FieldCondition> =>
+  (condition, scope) =>
+    compare(getColumn(scope, condition.field), condition.value)
+
+const pattern =
+  (
+    compare: typeof like,
+    toPattern: (value: string) => string
+  ): SqlInterpreter<FieldCondition<string>> =>
+  (condition, scope) =>
+    compare(getColumn(scope, condition.field), toPattern(condition.value))
+
+const regexMatch =
+  (operator: "~" | "~*"): SqlInterpreter<FieldCondition<string>> =>
+  (condition, scope) =>
+    sql`${getColumn(scope, condition.field)} ${sql.raw(operator)} ${condition.value}`
+
+// `tsvector` columns are searched as they are, other columns are converted first
+const textSearch: SqlInterpreter<FieldCondition<string>> = (
+  condition,
+  scope
+) => {
+  const column = getColumn(scope, condition.field)
+  const document =
+    column.getSQLType() === "tsvector"
+      ? sql`${column}`
+      : sql`to_tsvector(${column})`
+
+  return sql`${document} @@ to_tsquery(${condition.value})`
+}
+
+const nullCheck =
+  (whenTrue: typeof isNull, whenFalse: typeof isNull) =>
+  (condition: FieldCondition<boolean>, scope: CompileScope): SQL => {
+    const column = getColumn(scope, condition.field)
+    return condition.value ? whenTrue(column) : whenFalse(column)
+  }
+
+const isEmpty: SqlInterpreter<FieldCondition<boolean>> = (condition, scope) => {
+  const column = getColumn(scope, condition.field)
+  return condition.value
+    ? sql`coalesce(cardinality(${column}), 0) = 0`
+    : sql`cardinality(${column}) > 0`
+}
+
+const arrayOperator =
+  (compare: typeof arrayContains): SqlInterpreter<FieldCondition> =>
+  (condition, scope) =>
+    compare(
+      getColumn(scope, condition.field),
+      Array.isArray(condition.value) ? condition.value : [condition.value]
+    )
+
+const isSet: SqlInterpreter<FieldCondition<boolean>> = (condition) =>
+  condition.value ? TRUE : FALSE
+
+const compoundAnd: SqlInterpreter<CompoundCondition> = (
+  condition,
+  scope,
+  { interpret }
+) =>
+  and(
+    ...condition.value.map((subCondition) => interpret(subCondition, scope))
+  ) ?? TRUE
+
+const compoundOr: SqlInterpreter<CompoundCondition> = (
+  condition,
+  scope,
+  { interpret }
+) =>
+  or(
+    ...condition.value.map((subCondition) => interpret(subCondition, scope))
+  ) ?? FALSE
+
+/**
+ * Matches the in-memory interpreter: none of the nested conditions may match.
+ */
+const compoundNot: SqlInterpreter<CompoundCondition> = (
+  condition,
+  scope,
+  { interpret }
+) =>
+  and(
+    ...condition.value.map((subCondition) =>
+      not(interpret(subCondition, scope))
+    )
+  ) ?? TRUE
+
+const some: SqlInterpreter<FieldCondition<Condition>> = (
+  condition,
+  scope,
+  { interpret }
+) =>
+  exists(
+    relatedRecords(
+      scope,
+      condition.field,
+      compileNested(condition.value, interpret)
+    )
+  )
+
+/**
+ * At least one related record exists and no related record violates the condition.
+ * Like the relation filters of `accessibleBy()`, a related record for which the
+ * condition is UNKNOWN (because of NULL values) doesn't violate it.
+ */
+const every: SqlInterpreter<FieldCondition<Condition>> = (
+  condition,
+  scope,
+  { interpret }
+) =>
+  and(
+    exists(relatedRecords(scope, condition.field)),
+    notExists(
+      relatedRecords(
+        scope,
+        condition.field,
+        (relatedScope) => sql`not (${interpret(condition.value, relatedScope)})`
+      )
+    )
+  ) as SQL
+
+const json: SqlInterpreter<FieldCondition<JsonPathCondition>> = (
+  condition,
+  scope
+) => jsonPathToSQL(getColumn(scope, condition.field), condition.value)
+
+const raw: SqlInterpreter<FieldCondition> = (condition, scope) => {
+  if (condition.field === ITSELF) {
+    return toRawSQL(condition.value, scope)
+  }
+
+  // RAW on a relation field (e.g. produced by `some()`) filters the related records
+  return exists(
+    relatedRecords(scope, condition.field, (relatedScope) =>
+      toRawSQL(condition.value, relatedScope)
+    )
+  )
+}
+
+/**
+ * Compiles a condition tree parsed by `DrizzleQueryParser` into a Drizzle `SQL` expression.
+ * Relation conditions become correlated `EXISTS` subqueries derived from the relations config.
+ * @internal
+ */
+export const compileDrizzleQuery = createInterpreter<AnySqlInterpreter>({
+  eq: eqOperator,
+  equals: eqOperator,
+  notEquals,
+  in: within,
+  lt: comparison(lt),
+  lte: comparison(lte),
+  gt: comparison(gt),
+  gte: comparison(gte),
+  $lt: comparison(lt),
+  $lte: comparison(lte),
+  $gt: comparison(gt),
+  $gte: comparison(gte),
+  $in: within,
+  startsWith: pattern(like, (value) => `${escapeLike(value)}%`),
+  istartsWith: pattern(ilike, (value) => `${escapeLike(value)}%`),
+  endsWith: pattern(like, (value) => `%${escapeLike(value)}`),
+  iendsWith: pattern(ilike, (value) => `%${escapeLike(value)}`),
+  contains: pattern(like, (value) => `%${escapeLike(value)}%`),
+  icontains: pattern(ilike, (value) => `%${escapeLike(value)}%`),
+  like: pattern(like, (value) => value),
+  ilike: pattern(ilike, (value) => value),
+  regex: regexMatch("~"),
+  iregex: regexMatch("~*"),
+  search: textSearch,
+  isNull: nullCheck(isNull, isNotNull),
+  isNotNull: nullCheck(isNotNull, isNull),
+  isEmpty,
+  has: arrayOperator(arrayContains),
+  hasSome: arrayOperator(arrayOverlaps),
+  hasEvery: arrayOperator(arrayContains),
+  arrayOverlaps: arrayOperator(arrayOverlaps),
+  arrayContained: arrayOperator(arrayContained),
+  arrayContains: arrayOperator(arrayContains),
+  isSet,
+  and: compoundAnd,
+  or: compoundOr,
+  not: compoundNot,
+  AND: compoundAnd,
+  OR: compoundOr,
+  NOT: compoundNot,
+  some,
+  is: some,
+  every,
+  RAW: raw,
+  json,
+}) as (condition: Condition, scope: CompileScope) => SQL
@@ -1,6 +1,93 @@
+import type { AnyAbility } from "@casl/ability"
+
+type AnyRawRule = AnyAbility["rules"][number]
+
+/**
+ * Stable code of a `ParsingQueryError`, to branch on the kind of error
+ * without matching its message.
+ */
+export type ParsingQueryErrorCode =
+  /** An operator received a value of the wrong type */
+  | "INVALID_OPERATOR_VALUE"
+  /** A key is neither a known operator nor a field */
+  | "UNKNOWN_OPERATOR"
+  /** The operator has no Drizzle equivalent or isn't valid for the column */
+  | "UNSUPPORTED_OPERATOR"
+  /** The condition can only be evaluated in SQL, e.g. `RAW` without predicate */
+  | "UNSUPPORTED_IN_MEMORY"
+  /** The table has no such column or relation */
+  | "UNKNOWN_FIELD"
+  /** No table is known for the subject */
+  | "UNKNOWN_SUBJECT"
+  /** Any other malformed query */
+  | "INVALID_QUERY"
+
+/**
+ * Rule whose conditions caused a `ParsingQueryError`.
+ */
+export interface ParsingQueryErrorRule {
+  /** Index of the rule in `ability.rules` */
+  ruleIndex: number
+  subject: string
+  /** Action of the rule, or its actions separated by commas */
+  action: string
+  /** JSON path to the offending key within the conditions, e.g. `$.author.is.name` */
+  path: string
+  /** The rule as passed to the ability */
+  rule?: AnyRawRule
+}
+
+/**
+ * Structured details of a `ParsingQueryError`, see its properties.
+ */
+export interface ParsingQueryErrorDetails extends Partial<ParsingQueryErrorRule> {
+  code?: ParsingQueryErrorCode
+  operator?: string
+  expected?: string
+  received?: unknown
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/u
+
+/**
+ * Appends a key to a JSON path, e.g. `$.OR[1]["first name"]`.
+ * @internal
+ */
+export const pathTo = (path: string, key: string | number) => {
+  if (typeof key === "number") {
+    return `${path}[${key}]`
+  }
+  return IDENTIFIER.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`
+}
+
 export class ParsingQueryError extends Error {
   override name = "ParsingQueryError"
 
+  code: ParsingQueryErrorCode
+  /** JSON path to the offending key within the conditions, e.g. `$.author.is.name.like` */
+  path?: string
+  /** Operator that rejected its value or isn't supported */
+  operator?: string
+  /** Description of the value the operator expects */
+  expected?: string
+  /** Value the operator received */
+  received?: unknown
+
+  /** Set for errors of a specific rule, e.g. by `validateAbility()` and `accessibleBy()` */
+  ruleIndex?: number
+  subject?: string
+  action?: string
+  rule?: AnyRawRule
+
+  constructor(message: string, details: ParsingQueryErrorDetails = {}) {
+    super(message)
+    const { code = "INVALID_QUERY", ...fields } = details
+    this.code = code
+    Object.assign(this, fields)
+  }
+
   static invalidArgument(
     operatorName: string,
     value: unknown,
@@ -8,7 +95,55 @@ export class ParsingQueryError extends Error {
   ) {
     const valueType = `${typeof value}(${JSON.stringify(value, null, 2)})`
     return new this(
-      `"${operatorName}" expects to receive ${expectValueType} but instead got "${valueType}"`
+      `"${operatorName}" expects to receive ${expectValueType} but instead got "${valueType}"`,
+      {
+        code: "INVALID_OPERATOR_VALUE",
+        operator: operatorName,
+        expected: expectValueType,
+        received: value,
+      }
+    )
+  }
+
+  /**
+   * Creates an error of a rule. The message and details of a `ParsingQueryError` are kept,
+   * other errors are reported with code `INVALID_QUERY`.
+   */
+  static inRule(
+    cause: string | Error,
+    rule: Omit<ParsingQueryErrorRule, "path"> & { path?: string }
+  ) {
+    const details: ParsingQueryErrorDetails =
+      cause instanceof ParsingQueryError
+        ? {
+            code: cause.code,
+            path: cause.path,
+            operator: cause.operator,
+            expected: cause.expected,
+            received: cause.received,
+          }
+        : {}
+    const path = rule.path ?? details.path ?? "$"
+    const message = typeof cause === "string" ? cause : cause.message
+
+    return new this(
+      `Rule #${rule.ruleIndex} for "${rule.action}" on "${rule.subject}" at ${path}: ${message}`,
+      { ...details, ...rule, path }
     )
   }
 }
+
+/**
+ * Prepends keys to the path of a `ParsingQueryError` thrown within them.
+ * @internal
+ */
+export function withinPath(error: unknown, keys: (string | number)[]) {
+  if (error instanceof ParsingQueryError) {
+    let parentPath = "$"
+    for (const key of keys) {
+      parentPath = pathTo(parentPath, key)
+    }
+    error.path = parentPath + (error.path ?? "$").slice(1)
+  }
+  return error
+}
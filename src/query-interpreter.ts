@@ -1,8 +1,10 @@
 import type { CompoundCondition, Condition, FieldCondition } from "@ucast/core"
+import { createInterpreter, ITSELF } from "@ucast/core"
 import type { eq as jsEq, ne as jsNe } from "@ucast/js"
 import {
   and,
   compare,
+  createGetter,
   createJsInterpreter,
   gt,
   gte,
@@ -12,6 +14,14 @@ import {
   within,
 } from "@ucast/js"
 
+import type { JsonPathCondition } from "./json-path"
+import { evaluateJsonPath } from "./json-path"
+import { ParsingQueryError } from "./query-error"
+import { getRawPredicate } from "./raw-condition"
+import { toRegExp } from "./regular-expression"
+import { matchesTextSearch } from "./text-search"
+import type { DrizzleAbilityOptions } from "./types"
+
 type StringInterpreter = (
   // oxlint-disable-next-line typescript/no-invalid-void-type
   this: void,
@@ -22,26 +32,49 @@ type StringInterpreter = (
     interpret?: (condition: Condition, obj: unknown) => boolean
   }
 ) => boolean
-const startsWith: StringInterpreter = (condition, object, { get }): boolean =>
-  (get(object, condition.field) as string).startsWith(condition.value)
-const istartsWith: StringInterpreter = (condition, object, { get }): boolean =>
-  (get(object, condition.field) as string)
-    .toLowerCase()
-    .startsWith(condition.value.toLowerCase())
-
-const endsWith: StringInterpreter = (condition, object, { get }): boolean =>
-  (get(object, condition.field) as string).endsWith(condition.value)
-const iendsWith: StringInterpreter = (condition, object, { get }): boolean =>
-  (get(object, condition.field) as string)
-    .toLowerCase()
-    .endsWith(condition.value.toLowerCase())
-
-const contains: StringInterpreter = (condition, object, { get }): boolean =>
-  (get(object, condition.field) as string).includes(condition.value)
-const icontains: StringInterpreter = (condition, object, { get }): boolean =>
-  (get(object, condition.field) as string)
-    .toLowerCase()
-    .includes(condition.value.toLowerCase())
+const stringMatcher =
+  (
+    matches: (value: string, search: string) => boolean,
+    normalize: (value: string) => string = (value) => value
+  ): StringInterpreter =>
+  (condition, object, { get }): boolean => {
+    const value = get(object, condition.field)
+    // null (or non-string) values don't match, like the `LIKE` based SQL
+    if (typeof value !== "string") {
+      return false
+    }
+
+    return matches(normalize(value), normalize(condition.value))
+  }
+
+const toLowerCase = (value: string) => value.toLowerCase()
+
+const startsWith = stringMatcher((value, search) => value.startsWith(search))
+const istartsWith = stringMatcher(
+  (value, search) => value.startsWith(search),
+  toLowerCase
+)
+
+const endsWith = stringMatcher((value, search) => value.endsWith(search))
+const iendsWith = stringMatcher(
+  (value, search) => value.endsWith(search),
+  toLowerCase
+)
+
+const contains = stringMatcher((value, search) => value.includes(search))
+const icontains = stringMatcher(
+  (value, search) => value.includes(search),
+  toLowerCase
+)
+
+const regexMatch = stringMatcher((value, pattern) =>
+  toRegExp(pattern, "regex").test(value)
+)
+const iregexMatch = stringMatcher((value, pattern) =>
+  toRegExp(pattern, "iregex").test(value)
+)
+
+const textSearch = stringMatcher(matchesTextSearch)
 
 const likeToRegExp = (pattern: string): RegExp => {
   const escaped = pattern.replaceAll(/[.*+?^${}()|[\]\\]/gu, "\\$&")
@@ -236,6 +269,16 @@ const isNotNull: (
   return (item !== null) === condition.value
 }
 
+// A missing path doesn't match, like the UNKNOWN result in SQL
+const json: (
+  // oxlint-disable-next-line typescript/no-invalid-void-type
+  this: void,
+  condition: FieldCondition<JsonPathCondition>,
+  object: Record<string, unknown>,
+  context: { get: (obj: unknown, field: string) => unknown }
+) => boolean = (condition, object, { get }): boolean =>
+  evaluateJsonPath(get(object, condition.field), condition.value) === true
+
 function toComparable(value: unknown) {
   return value && typeof value === "object" ? value.valueOf() : value
 }
@@ -312,57 +355,355 @@ const ne: typeof jsNe = (condition, object, context): boolean =>
   !eq(condition, object, context)
 
 /**
- * RAW SQL conditions can't be evaluated in JavaScript.
- * In DB context, they're passed through by accessibleBy().
- * In JS context (tests), we return true to allow the condition through.
+ * RAW SQL conditions can't be evaluated in JavaScript. Conditions created by `raw()`
+ * carry a predicate which is used instead. Without predicate, the `rawConditions`
+ * option decides whether the condition matches.
  */
-const raw: typeof and = () => true
+const raw =
+  (
+    rawConditions: NonNullable<DrizzleAbilityOptions["rawConditions"]>
+  ): ((
+    // oxlint-disable-next-line typescript/no-invalid-void-type
+    this: void,
+    condition: FieldCondition,
+    object: Record<string, unknown>,
+    context: { get: (obj: unknown, field: string) => unknown }
+  ) => boolean) =>
+  (condition, object, { get }): boolean => {
+    const predicate = getRawPredicate(condition.value)
+
+    if (predicate) {
+      return predicate(
+        condition.field === ITSELF ? object : get(object, condition.field)
+      )
+    }
+
+    if (rawConditions === "throw") {
+      throw new ParsingQueryError(
+        "RAW condition can't be evaluated in memory. Use raw(sql, predicate) to attach a JavaScript predicate",
+        { code: "UNSUPPORTED_IN_MEMORY", operator: "RAW" }
+      )
+    }
+
+    return rawConditions === "allow"
+  }
 
 const compareValues: typeof compare = (a, b) =>
   compare(toComparable(a), toComparable(b))
 
-export const interpretDrizzleQuery = createJsInterpreter(
-  {
-    // eq/ne support deep equality for arrays and plain objects.
-    eq,
-    equals: eq,
-    notEquals: ne,
-    in: within,
-    lt,
-    lte,
-    gt,
-    gte,
-    startsWith,
-    istartsWith,
-    endsWith,
-    iendsWith,
-    contains,
-    icontains,
-    like,
-    ilike,
-    isEmpty,
-    has,
-    hasSome,
-    hasEvery,
-    arrayOverlaps,
-    arrayContained,
-    arrayContains,
-    and,
-    or,
-    AND: and,
-    OR: or,
-    NOT: not,
-    every,
-    some,
-    is,
-    isSet,
-    isNull,
-    isNotNull,
-    RAW: raw,
-  },
-  {
-    get: (object: Record<string, unknown>, field: string): unknown =>
-      object[field],
-    compare: compareValues,
+const operators = {
+  // eq/ne support deep equality for arrays and plain objects.
+  eq,
+  equals: eq,
+  notEquals: ne,
+  in: within,
+  lt,
+  lte,
+  gt,
+  gte,
+  $lt: lt,
+  $lte: lte,
+  $gt: gt,
+  $gte: gte,
+  $in: within,
+  startsWith,
+  istartsWith,
+  endsWith,
+  iendsWith,
+  contains,
+  icontains,
+  like,
+  ilike,
+  regex: regexMatch,
+  iregex: iregexMatch,
+  search: textSearch,
+  isEmpty,
+  has,
+  hasSome,
+  hasEvery,
+  arrayOverlaps,
+  arrayContained,
+  arrayContains,
+  and,
+  or,
+  AND: and,
+  OR: or,
+  NOT: not,
+  every,
+  some,
+  is,
+  isSet,
+  isNull,
+  isNotNull,
+  json,
+}
+
+/**
+ * Truth value of SQL's three-valued logic, `null` stands for UNKNOWN.
+ */
+type SqlBoolean = boolean | null
+
+interface SqlContext {
+  get: (obj: unknown, field: string) => unknown
+  compare: typeof compare
+  isArray: (value: unknown) => value is unknown[]
+  interpret: (condition: Condition, obj: unknown) => SqlBoolean
+}
+
+type SqlOperator<TCondition extends Condition = FieldCondition> = (
+  // oxlint-disable-next-line typescript/no-invalid-void-type
+  this: void,
+  condition: TCondition,
+  object: Record<string, unknown>,
+  context: SqlContext
+) => SqlBoolean
+
+// oxlint-disable-next-line typescript/no-explicit-any
+type AnySqlOperator = SqlOperator<any>
+
+// oxlint-disable-next-line typescript/no-explicit-any
+type JsOperator = (condition: any, object: any, context: any) => boolean
+
+const isNullish = (value: unknown): value is null | undefined =>
+  value === null || value === undefined
+
+const sqlNot = (value: SqlBoolean): SqlBoolean =>
+  value === null ? null : !value
+
+const sqlAnd = (values: SqlBoolean[]): SqlBoolean => {
+  let result: SqlBoolean = true
+  for (const value of values) {
+    if (value === false) {
+      return false
+    }
+    if (value === null) {
+      result = null
+    }
   }
-)
+  return result
+}
+
+const sqlOr = (values: SqlBoolean[]): SqlBoolean =>
+  sqlNot(sqlAnd(values.map(sqlNot)))
+
+/**
+ * Comparisons with a NULL operand are UNKNOWN, otherwise the JavaScript operator decides.
+ */
+const nullPropagating =
+  (operator: JsOperator): SqlOperator =>
+  (condition, object, context) =>
+    isNullish(context.get(object, condition.field)) || condition.value === null
+      ? null
+      : operator(condition, object, context)
+
+// `= NULL` and `<> NULL` are compiled to `IS NULL` and `IS NOT NULL`
+const sqlEq: SqlOperator = (condition, object, context) =>
+  condition.value === null
+    ? isNullish(context.get(object, condition.field))
+    : nullPropagating(eq)(condition, object, context)
+
+const sqlNe: SqlOperator = (condition, object, context) =>
+  condition.value === null
+    ? !isNullish(context.get(object, condition.field))
+    : nullPropagating(ne)(condition, object, context)
+
+// `x IN (1, NULL)` is UNKNOWN unless x = 1
+const sqlIn: SqlOperator<FieldCondition<unknown[]>> = (
+  condition,
+  object,
+  context
+) => {
+  // Drizzle compiles an empty list to `false`, also for `NULL` values
+  if (condition.value.length === 0) {
+    return false
+  }
+
+  if (isNullish(context.get(object, condition.field))) {
+    return null
+  }
+
+  if ((within as JsOperator)(condition, object, context)) {
+    return true
+  }
+
+  return condition.value.includes(null) ? null : false
+}
+
+const sqlIsEmpty: SqlOperator<FieldCondition<boolean>> = (
+  condition,
+  object,
+  context
+) => {
+  // isEmpty: true compiles to `coalesce(cardinality(x), 0) = 0`
+  if (isNullish(context.get(object, condition.field))) {
+    return condition.value ? true : null
+  }
+
+  return (isEmpty as JsOperator)(condition, object, context)
+}
+
+const sqlIsNull: SqlOperator<FieldCondition<boolean>> = (
+  condition,
+  object,
+  { get }
+) => isNullish(get(object, condition.field)) === condition.value
+
+const sqlIsNotNull: SqlOperator<FieldCondition<boolean>> = (
+  condition,
+  object,
+  { get }
+) => isNullish(get(object, condition.field)) !== condition.value
+
+const sqlAndOperator: SqlOperator<CompoundCondition> = (
+  condition,
+  object,
+  { interpret }
+) =>
+  sqlAnd(condition.value.map((subCondition) => interpret(subCondition, object)))
+
+const sqlOrOperator: SqlOperator<CompoundCondition> = (
+  condition,
+  object,
+  { interpret }
+) =>
+  sqlOr(condition.value.map((subCondition) => interpret(subCondition, object)))
+
+const sqlNotOperator: SqlOperator<CompoundCondition> = (
+  condition,
+  object,
+  { interpret }
+) =>
+  sqlAnd(
+    condition.value.map((subCondition) =>
+      sqlNot(interpret(subCondition, object))
+    )
+  )
+
+const relatedItems = (value: unknown): Record<string, unknown>[] => {
+  if (Array.isArray(value)) {
+    return value as Record<string, unknown>[]
+  }
+
+  return value !== null && typeof value === "object"
+    ? [value as Record<string, unknown>]
+    : []
+}
+
+// `EXISTS` is never UNKNOWN: a related record is selected when the condition is TRUE
+const sqlSome: SqlOperator<FieldCondition<Condition>> = (
+  condition,
+  object,
+  { get, interpret }
+) =>
+  relatedItems(get(object, condition.field)).some(
+    (item) => interpret(condition.value, item) === true
+  )
+
+// At least one related record exists and no related record violates the condition
+const sqlEvery: SqlOperator<FieldCondition<Condition>> = (
+  condition,
+  object,
+  { get, interpret }
+) => {
+  const items = relatedItems(get(object, condition.field))
+  return (
+    items.length > 0 &&
+    !items.some((item) => interpret(condition.value, item) === false)
+  )
+}
+
+// A missing path is UNKNOWN, like `NULL` returned by `jsonb_extract_path()`
+const sqlJson: SqlOperator<FieldCondition<JsonPathCondition>> = (
+  condition,
+  object,
+  { get }
+) => evaluateJsonPath(get(object, condition.field), condition.value)
+
+const sqlOperators: Record<string, AnySqlOperator> = {
+  eq: sqlEq,
+  equals: sqlEq,
+  notEquals: sqlNe,
+  in: sqlIn,
+  lt: nullPropagating(lt),
+  lte: nullPropagating(lte),
+  gt: nullPropagating(gt),
+  gte: nullPropagating(gte),
+  $lt: nullPropagating(lt),
+  $lte: nullPropagating(lte),
+  $gt: nullPropagating(gt),
+  $gte: nullPropagating(gte),
+  $in: sqlIn,
+  startsWith: nullPropagating(startsWith),
+  istartsWith: nullPropagating(istartsWith),
+  endsWith: nullPropagating(endsWith),
+  iendsWith: nullPropagating(iendsWith),
+  contains: nullPropagating(contains),
+  icontains: nullPropagating(icontains),
+  like: nullPropagating(like),
+  ilike: nullPropagating(ilike),
+  regex: nullPropagating(regexMatch),
+  iregex: nullPropagating(iregexMatch),
+  search: nullPropagating(textSearch),
+  isEmpty: sqlIsEmpty,
+  has: nullPropagating(has),
+  hasSome: nullPropagating(hasSome),
+  hasEvery: nullPropagating(hasEvery),
+  arrayOverlaps: nullPropagating(arrayOverlaps),
+  arrayContained: nullPropagating(arrayContained),
+  arrayContains: nullPropagating(arrayContains),
+  and: sqlAndOperator,
+  or: sqlOrOperator,
+  AND: sqlAndOperator,
+  OR: sqlOrOperator,
+  NOT: sqlNotOperator,
+  every: sqlEvery,
+  some: sqlSome,
+  is: sqlSome,
+  isSet,
+  isNull: sqlIsNull,
+  isNotNull: sqlIsNotNull,
+  json: sqlJson,
+}
+
+const getField = (object: Record<string, unknown>, field: string): unknown =>
+  object[field]
+
+/**
+ * Creates an in-memory interpreter emulating SQL's three-valued logic.
+ * Conditions match when they evaluate to TRUE, UNKNOWN is treated like FALSE.
+ */
+const createSqlLogicInterpreter = (options: DrizzleAbilityOptions) => {
+  const interpret = createInterpreter(
+    {
+      ...sqlOperators,
+      RAW: raw(options.rawConditions ?? "allow") as AnySqlOperator,
+    },
+    {
+      get: createGetter(getField),
+      compare: compareValues,
+      isArray: Array.isArray,
+    }
+  )
+
+  return (condition: Condition, object: unknown): boolean =>
+    interpret(condition, object as Record<string, unknown>) === true
+}
+
+/**
+ * Creates an in-memory interpreter for conditions parsed by `DrizzleQueryParser`.
+ * @internal
+ */
+export const createDrizzleInterpreter = (
+  options: DrizzleAbilityOptions = {}
+) => {
+  const interpret = createJsInterpreter(
+    { ...operators, RAW: raw(options.rawConditions ?? "allow") },
+    { get: getField, compare: compareValues }
+  )
+
+  return options.nullSemantics === "sql"
+    ? (createSqlLogicInterpreter(options) as typeof interpret)
+    : interpret
+}
+
+export const interpretDrizzleQuery = createDrizzleInterpreter()
@@ -2,19 +2,27 @@ import type {
   Comparable,
   CompoundInstruction,
   Condition,
+  DocumentInstruction,
   FieldInstruction,
   FieldParsingContext,
+  NamedInstruction,
   ObjectQueryFieldParsingContext,
+  ParsingContext,
 } from "@ucast/core"
 import {
   buildAnd,
   CompoundCondition,
   FieldCondition,
+  ITSELF,
   NULL_CONDITION,
   ObjectQueryParser,
 } from "@ucast/core"
 
-import { ParsingQueryError } from "./query-error"
+import { parseJsonPathQuery } from "./json-path"
+import { ParsingQueryError, pathTo, withinPath } from "./query-error"
+import { toRegExp } from "./regular-expression"
+import { parseTextSearchQuery } from "./text-search"
+import type { EverySemantics } from "./types"
 
 const isPlainObject = (value: unknown): value is Record<string, unknown> =>
   value !== null &&
@@ -133,6 +141,84 @@ const compareLike: FieldInstruction<string, StringFieldContext> = {
   },
 }
 
+const compareRegex: FieldInstruction<string, StringFieldContext> = {
+  type: "field",
+  validate(instruction, value) {
+    if (typeof value !== "string") {
+      throw ParsingQueryError.invalidArgument(instruction.name, value, "string")
+    }
+
+    toRegExp(value, instruction.name)
+  },
+  parse(instruction, value, { query, field }) {
+    if (instruction.name === "iregex" || query.mode === "insensitive") {
+      return new FieldCondition("iregex", field, value)
+    }
+
+    return new FieldCondition("regex", field, value)
+  },
+}
+
+interface MongoRegexContext extends FieldParsingContext {
+  query: {
+    $options?: string
+  }
+}
+
+/**
+ * `$regex` of CASL's default format, matching like `iregex` with `$options: "i"`
+ * and like `regex` otherwise.
+ */
+const mongoRegex: FieldInstruction<string, MongoRegexContext> = {
+  type: "field",
+  validate: compareRegex.validate as FieldInstruction<string>["validate"],
+  parse(_, value, { query, field }) {
+    return new FieldCondition(
+      query.$options === "i" ? "iregex" : "regex",
+      field,
+      value
+    )
+  },
+}
+
+const MONGO_REGEX_OPTIONS = new Set(["", "i"])
+
+const mongoRegexOptions: FieldInstruction<string, MongoRegexContext> = {
+  type: "field",
+  validate(instruction, value) {
+    if (typeof value !== "string" || !MONGO_REGEX_OPTIONS.has(value)) {
+      throw new ParsingQueryError(
+        `"${instruction.name}" only supports "i" (case-insensitive), other options have no Drizzle equivalent`,
+        {
+          code: "UNSUPPORTED_OPERATOR",
+          operator: instruction.name,
+          expected: '"i"',
+          received: value,
+        }
+      )
+    }
+  },
+  parse(instruction, _, { query }) {
+    if (!("$regex" in query)) {
+      throw new ParsingQueryError(`"${instruction.name}" requires "$regex"`, {
+        operator: instruction.name,
+      })
+    }
+    return NULL_CONDITION
+  },
+}
+
+const search: FieldInstruction<string> = {
+  type: "field",
+  validate(instruction, value) {
+    if (typeof value !== "string") {
+      throw ParsingQueryError.invalidArgument(instruction.name, value, "string")
+    }
+
+    parseTextSearchQuery(value)
+  },
+}
+
 const compound: CompoundInstruction = {
   type: "compound",
   validate(instruction, value) {
@@ -145,8 +231,17 @@ const compound: CompoundInstruction = {
     }
   },
   parse(instruction, arrayOrObject, { parse }) {
-    const value = Array.isArray(arrayOrObject) ? arrayOrObject : [arrayOrObject]
-    const conditions = value.map((v) => parse(v))
+    if (!Array.isArray(arrayOrObject)) {
+      return new CompoundCondition(instruction.name, [parse(arrayOrObject)])
+    }
+
+    const conditions = arrayOrObject.map((v, index) => {
+      try {
+        return parse(v)
+      } catch (error) {
+        throw withinPath(error, [index])
+      }
+    })
     return new CompoundCondition(instruction.name, conditions)
   },
 }
@@ -212,6 +307,65 @@ const relation: FieldInstruction<
   },
 }
 
+const EVERY_SEMANTICS = new Set(["strict", "vacuous"])
+const semantics: FieldInstruction<string, ObjectQueryFieldParsingContext> = {
+  type: "field",
+  validate(instruction, value) {
+    if (!EVERY_SEMANTICS.has(value)) {
+      throw ParsingQueryError.invalidArgument(
+        instruction.name,
+        value,
+        `one of ${[...EVERY_SEMANTICS].join(", ")}`
+      )
+    }
+  },
+  parse(instruction, _, { query }) {
+    if (!Object.hasOwn(query, "every")) {
+      throw new ParsingQueryError(
+        `"${instruction.name}" can only be used together with "every"`,
+        { operator: instruction.name }
+      )
+    }
+
+    return NULL_CONDITION
+  },
+}
+
+type EveryFieldContext = ObjectQueryFieldParsingContext & {
+  query: { semantics?: EverySemantics }
+  everySemantics: EverySemantics
+}
+
+/**
+ * Vacuous `every` is parsed as "no related record violates the condition",
+ * so that in-memory checks and the SQL compiler only know the strict variant.
+ */
+const every: FieldInstruction<Record<string, unknown>, EveryFieldContext> = {
+  type: "field",
+  parse(instruction, value, { field, parse, query, everySemantics }) {
+    if (!isPlainObject(value)) {
+      throw ParsingQueryError.invalidArgument(
+        instruction.name,
+        value,
+        "a query for nested relation"
+      )
+    }
+
+    const condition = parse(value)
+    if ((query.semantics ?? everySemantics) === "strict") {
+      return new FieldCondition(instruction.name, field, condition)
+    }
+
+    return new CompoundCondition("NOT", [
+      new FieldCondition(
+        "some",
+        field,
+        new CompoundCondition("NOT", [condition])
+      ),
+    ])
+  },
+}
+
 const inverted = (
   name: string,
   baseInstruction: FieldInstruction
@@ -246,12 +400,133 @@ const inverted = (
 
 const raw: FieldInstruction<unknown> = {
   type: "field",
-  parse(_, value) {
-    // RAW SQL is passed through as-is, will be handled in accessibleBy
-    return new FieldCondition("RAW", "RAW", value)
+  parse(_, value, { field }) {
+    // RAW SQL is passed through as-is, will be handled in accessibleBy.
+    // The field is kept so that RAW filters on relations can be resolved.
+    return new FieldCondition("RAW", field, value)
   },
 }
 
+/**
+ * JSON path conditions on `json` / `jsonb` columns, see `JsonPathQuery`.
+ */
+const json: FieldInstruction = {
+  type: "field",
+  parse(instruction, value, { field }) {
+    return new FieldCondition(
+      instruction.name,
+      field,
+      parseJsonPathQuery(instruction.name, value)
+    )
+  },
+}
+
+/**
+ * Mongo operators used by CASL's default format, parsed like the equivalent Drizzle operators.
+ */
+const mongoEq: FieldInstruction = {
+  type: "field",
+  parse(_, value, { field }) {
+    return new FieldCondition("eq", field, value)
+  },
+}
+
+const mongoExists: FieldInstruction<boolean> = {
+  ...booleanField,
+  parse(_, value, { field }) {
+    return new FieldCondition(value ? "isNotNull" : "isNull", field, true)
+  },
+}
+
+const mongoAll: FieldInstruction<unknown[]> = {
+  ...arrayField,
+  parse(_, value, { field }) {
+    return new FieldCondition("arrayContains", field, value)
+  },
+}
+
+/**
+ * `$elemMatch` matches related records like `some`. Queries on the elements of array
+ * columns, e.g. `{ $gt: 2 }`, have no Drizzle equivalent and are rejected.
+ */
+const mongoElemMatch: FieldInstruction<
+  Record<string, unknown>,
+  ObjectQueryFieldParsingContext
+> = {
+  type: "field",
+  validate(instruction, value) {
+    if (!isPlainObject(value)) {
+      throw ParsingQueryError.invalidArgument(
+        instruction.name,
+        value,
+        "a query for the related table"
+      )
+    }
+
+    const operator = Object.keys(value).find(
+      (key) => key !== "RAW" && isFieldOperator(key)
+    )
+    if (operator) {
+      throw new ParsingQueryError(
+        `"${instruction.name}" is only supported on relations, array columns have no Drizzle equivalent (use "$all" instead)`,
+        {
+          code: "UNSUPPORTED_OPERATOR",
+          operator: instruction.name,
+          expected: "a query for the related table",
+          received: value,
+        }
+      )
+    }
+  },
+  parse(_, value, context) {
+    return relation.parse?.(
+      { name: "some", type: "field" },
+      value,
+      context
+    ) as Condition
+  },
+}
+
+const mongoNot: FieldInstruction<unknown, ObjectQueryFieldParsingContext> = {
+  type: "field",
+  parse: ((instruction, value, { field, parse }) => {
+    if (!isPlainObject(value)) {
+      throw ParsingQueryError.invalidArgument(
+        instruction.name,
+        value,
+        "an object with operators"
+      )
+    }
+
+    return new CompoundCondition("NOT", [parse(value, { field })])
+  }) as FieldInstruction<unknown, ObjectQueryFieldParsingContext>["parse"],
+}
+
+const mongoCompound = (name: string): CompoundInstruction => ({
+  ...compound,
+  parse(instruction, value, context) {
+    const condition = compound.parse?.(instruction, value, context) as
+      | CompoundCondition
+      | undefined
+    return new CompoundCondition(name, condition?.value ?? [])
+  },
+})
+
+/**
+ * Mongo operators without an equivalent Drizzle operator.
+ */
+const unsupported = (
+  type: "field" | "document"
+): FieldInstruction | DocumentInstruction => ({
+  type,
+  validate(instruction: { name: string }) {
+    throw new ParsingQueryError(
+      `"${instruction.name}" is not supported because Drizzle has no equivalent operator`,
+      { code: "UNSUPPORTED_OPERATOR", operator: instruction.name }
+    )
+  },
+})
+
 const instructions = {
   eq,
   ne,
@@ -269,12 +544,30 @@ const instructions = {
   $gte: lt,
   $in: within,
   $nin: inverted("in", within),
+  $eq: mongoEq,
+  $ne: ne,
+  $exists: mongoExists,
+  $all: mongoAll,
+  $elemMatch: mongoElemMatch,
+  $not: mongoNot,
+  $and: mongoCompound("AND"),
+  $or: mongoCompound("OR"),
+  // Like `NOT`, none of the conditions may match
+  $nor: mongoCompound("NOT"),
+  $size: unsupported("field"),
+  $regex: mongoRegex,
+  $options: mongoRegexOptions,
+  $mod: unsupported("field"),
+  $where: unsupported("document"),
   mode,
   startsWith: compareString,
   endsWith: compareString,
   contains: compareString,
   like: compareLike,
   ilike: compareLike,
+  regex: compareRegex,
+  iregex: compareRegex,
+  search,
   notLike: {
     type: "field",
     parse: ((_, value, { field, parse }) =>
@@ -301,13 +594,21 @@ const instructions = {
   NOT: compound,
   AND: compound,
   OR: compound,
-  every: relation,
+  every,
+  semantics,
   some: relation,
   none: inverted("some", relation),
   is: relation,
   isNot: inverted("is", relation),
   isSet: booleanField,
   RAW: raw,
+  json,
+}
+
+function isFieldOperator(key: string): boolean {
+  return (
+    (instructions as Record<string, { type: string }>)[key]?.type === "field"
+  )
 }
 
 export interface ParseOptions {
@@ -317,9 +618,10 @@ export interface ParseOptions {
 export class DrizzleQueryParser extends ObjectQueryParser<
   Record<string, unknown>
 > {
-  constructor() {
+  constructor(options: { everySemantics?: EverySemantics } = {}) {
     super(instructions, {
       defaultOperatorName: "eq",
+      fieldContext: { everySemantics: options.everySemantics ?? "strict" },
     })
   }
 
@@ -345,16 +647,111 @@ export class DrizzleQueryParser extends ObjectQueryParser<
     return normalized
   }
 
+  /**
+   * Operators are checked here instead of by ucast, to report unknown ones as `ParsingQueryError`.
+   * The field and operator are prepended to the path of errors of nested conditions.
+   */
+  protected override parseField(
+    field: string,
+    operator: string,
+    value: unknown,
+    parentQuery: Record<string, unknown>
+  ): Condition {
+    const instruction = Object.hasOwn(instructions, operator)
+      ? (instructions as Record<string, { type: string }>)[operator]
+      : undefined
+
+    if (!instruction) {
+      throw new ParsingQueryError(`Unsupported operator "${operator}"`, {
+        code: "UNKNOWN_OPERATOR",
+        operator,
+        path: pathTo(pathTo("$", field), operator),
+      })
+    }
+
+    if (instruction.type !== "field") {
+      throw new ParsingQueryError(
+        `Unexpected ${instruction.type} operator "${operator}" at field level`,
+        { operator, path: pathTo(pathTo("$", field), operator) }
+      )
+    }
+
+    // Values without operators are parsed with the default operator, which isn't part of the path
+    const isExplicit = parentQuery[operator] === value
+    const keys = isExplicit ? [field, operator] : [field]
+
+    try {
+      return super.parseField(field, operator, value, parentQuery)
+    } catch (error) {
+      throw withinPath(error, keys)
+    }
+  }
+
+  protected override parseFieldOperators(
+    field: string,
+    value: Record<string, unknown>
+  ): Condition[] {
+    const unknownKey = Object.keys(value).find(
+      (key) => !Object.hasOwn(instructions, key)
+    )
+
+    if (unknownKey !== undefined) {
+      throw new ParsingQueryError(
+        `Field query for "${field}" may contain only operators or a plain object as a value`,
+        {
+          code: "UNKNOWN_OPERATOR",
+          operator: unknownKey,
+          path: pathTo(pathTo("$", field), unknownKey),
+        }
+      )
+    }
+
+    return super.parseFieldOperators(field, value as never)
+  }
+
+  protected override parseInstruction(
+    instruction: NamedInstruction,
+    value: unknown,
+    context: ParsingContext<object>
+  ): Condition {
+    if (instruction.type === "field") {
+      return super.parseInstruction(instruction, value, context)
+    }
+
+    try {
+      return super.parseInstruction(instruction, value, context)
+    } catch (error) {
+      throw withinPath(error, [instruction.name])
+    }
+  }
+
   parse(query: Record<string, unknown>, options?: ParseOptions): Condition {
     const normalizedQuery = this.normalizeEqOperator(query) as Record<
       string,
       unknown
     >
     if (options?.field) {
-      return buildAnd(
-        // oxlint-disable-next-line typescript/no-explicit-any
-        (this.parseFieldOperators as any)(options.field, normalizedQuery)
-      )
+      const fieldPath = pathTo("$", options.field)
+      try {
+        return buildAnd(
+          this.parseFieldOperators(options.field, normalizedQuery)
+        )
+      } catch (error) {
+        // Operators of a field are nested in the operator parsing them, e.g. `not`
+        if (error instanceof ParsingQueryError && error.path) {
+          error.path = `$${error.path.slice(fieldPath.length)}`
+        }
+        throw error
+      }
+    }
+
+    // RAW at document level applies to the record itself
+    if (Object.hasOwn(normalizedQuery, "RAW")) {
+      const { RAW: rawCondition, ...fieldsQuery } = normalizedQuery
+      return buildAnd([
+        new FieldCondition("RAW", ITSELF, rawCondition),
+        super.parse(fieldsQuery),
+      ])
     }
 
     return super.parse(normalizedQuery)
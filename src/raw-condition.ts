@@ -0,0 +1,130 @@
+import { CompoundCondition, Condition, FieldCondition } from "@ucast/core"
+import type { EmptyFilter, operators, SQL, SQLWrapper } from "drizzle-orm"
+
+/**
+ * JavaScript counterpart of a RAW SQL condition, used for in-memory checks like `ability.can()`.
+ */
+export type RawPredicate<TRow = Record<string, unknown>> = (
+  row: TRow
+) => boolean
+
+/**
+ * SQL part of a RAW condition, either an SQL expression or a builder
+ * receiving the (aliased) table and Drizzle's operators.
+ * Within relation filters, the builder also receives the (aliased) parent table.
+ */
+export type RawSQL =
+  | SQLWrapper
+  | ((
+      // oxlint-disable-next-line typescript/no-explicit-any
+      table: any,
+      ops: typeof operators,
+      // oxlint-disable-next-line typescript/no-explicit-any
+      parent?: any
+    ) => SQL | EmptyFilter)
+
+type RawSQLBuilder = Extract<RawSQL, (...args: never[]) => unknown>
+
+const predicates = new WeakMap<object, RawPredicate<never>>()
+
+/**
+ * Returns the predicate attached to a RAW condition by `raw()`.
+ * @internal
+ */
+export function getRawPredicate(
+  value: unknown
+): RawPredicate<unknown> | undefined {
+  if (typeof value !== "function" && (typeof value !== "object" || !value)) {
+    return undefined
+  }
+
+  return predicates.get(value) as RawPredicate<unknown> | undefined
+}
+
+/**
+ * Finds a RAW condition without predicate which grants access when it is treated as not
+ * matching: within an odd number of `NOT`s of a `can` rule, or an even number of a
+ * `cannot` rule. `inverted` tells whether the rule is a `cannot` rule.
+ * @internal
+ */
+export function findPermissiveRawCondition(
+  condition: Condition,
+  inverted: boolean
+): FieldCondition | undefined {
+  if (condition instanceof CompoundCondition) {
+    const childInverted = condition.operator === "NOT" ? !inverted : inverted
+    for (const child of condition.value) {
+      const found = findPermissiveRawCondition(child, childInverted)
+      if (found) {
+        return found
+      }
+    }
+    return undefined
+  }
+
+  if (!(condition instanceof FieldCondition)) {
+    return undefined
+  }
+
+  // Conditions on related records, e.g. of `some` and `is`
+  if (condition.value instanceof Condition) {
+    return findPermissiveRawCondition(condition.value, inverted)
+  }
+
+  return condition.operator === "RAW" &&
+    inverted &&
+    !getRawPredicate(condition.value)
+    ? condition
+    : undefined
+}
+
+/**
+ * Creates a RAW condition carrying both an SQL expression and an equivalent JavaScript predicate.
+ *
+ * `accessibleBy()`, `accessibleSQL()` and friends pass the SQL through to Drizzle, while
+ * in-memory checks like `ability.can("delete", subject("posts", row))` evaluate the predicate.
+ * Without a predicate, RAW conditions are treated according to the `rawConditions` ability option.
+ *
+ * Within a relation filter, a builder function receives the (aliased) parent table as third
+ * argument, so that the related records can be compared with the parent row.
+ *
+ * @example
+ * ```ts
+ * import { raw } from "@noxify/casl-drizzle"
+ * import { sql } from "drizzle-orm"
+ *
+ * can("delete", "posts", {
+ *   ...raw(
+ *     (table) => sql`${table.id} % 2 = 0`,
+ *     (post: { id: number }) => post.id % 2 === 0
+ *   ),
+ * })
+ *
+ * // Comments written by the author of the post
+ * can("read", "posts", {
+ *   comments: some({
+ *     ...raw((comment, { eq }, post) => eq(comment.authorId, post.authorId)),
+ *   }),
+ * })
+ * ```
+ *
+ * @param condition - SQL expression or builder function passed to Drizzle
+ * @param predicate - Optional JavaScript equivalent of `condition`, receives the checked record
+ * @returns A RAW condition object for use in ability definitions
+ */
+export function raw<TRow = Record<string, unknown>>(
+  condition: RawSQL,
+  predicate?: RawPredicate<TRow>
+): { RAW: RawSQLBuilder } {
+  // A fresh function is used as key, so that the same SQL can be reused with different predicates
+  const builder: RawSQLBuilder =
+    typeof condition === "function"
+      ? (table, ops, parent) => condition(table, ops, parent)
+      : () => condition.getSQL()
+
+  if (predicate) {
+    predicates.set(builder, predicate)
+  }
+
+  return { RAW: builder }
+}
@@ -0,0 +1,158 @@
+import { ParsingQueryError } from "./query-error"
+
+// POSIX character classes of Postgres, as contents of a JavaScript character class
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: String.raw`\p{L}\p{Nd}`,
+  alpha: String.raw`\p{L}`,
+  ascii: String.raw`\0-\x7F`,
+  blank: String.raw` \t`,
+  cntrl: String.raw`\p{Cc}`,
+  digit: "0-9",
+  lower: String.raw`\p{Ll}`,
+  print: String.raw`\P{C}`,
+  punct: String.raw`\p{P}\p{S}`,
+  space: String.raw`\s`,
+  upper: String.raw`\p{Lu}`,
+  word: String.raw`\p{L}\p{Nd}_`,
+  xdigit: "0-9A-Fa-f",
+}
+
+// Escapes which Postgres rejects or reads differently
+const UNSUPPORTED_ESCAPES: Record<string, string> = {
+  p: String.raw`Unicode property escapes (\p{…})`,
+  P: String.raw`Unicode property escapes (\P{…})`,
+  k: String.raw`named backreferences (\k<…>)`,
+  b: String.raw`"\b", a backspace in Postgres`,
+  B: String.raw`"\B", a backslash in Postgres`,
+}
+
+const unsupported = (operator: string, pattern: string, syntax: string) =>
+  new ParsingQueryError(
+    `"${operator}" doesn't support ${syntax}, patterns must use the syntax common to Postgres and JavaScript`,
+    {
+      code: "INVALID_OPERATOR_VALUE",
+      operator,
+      expected: "a regular expression",
+      received: pattern,
+    }
+  )
+
+interface Scanner {
+  pattern: string
+  operator: string
+  index: number
+}
+
+function readEscape(scanner: Scanner): string {
+  const escape = scanner.pattern.slice(scanner.index, scanner.index + 2)
+  const syntax = UNSUPPORTED_ESCAPES[escape.slice(1)]
+  if (syntax) {
+    throw unsupported(scanner.operator, scanner.pattern, syntax)
+  }
+
+  scanner.index += escape.length
+  return escape
+}
+
+function readPosixClass(scanner: Scanner): string {
+  const { pattern, operator } = scanner
+  const end = pattern.indexOf(":]", scanner.index + 2)
+  const name = end === -1 ? "" : pattern.slice(scanner.index + 2, end)
+  const characters = Object.hasOwn(POSIX_CLASSES, name)
+    ? POSIX_CLASSES[name]
+    : undefined
+
+  if (characters === undefined) {
+    const posixClass = end === -1 ? "[:" : pattern.slice(scanner.index, end + 2)
+    throw unsupported(operator, pattern, `the character class "${posixClass}"`)
+  }
+
+  scanner.index = end + 2
+  return characters
+}
+
+/**
+ * Translates a bracket expression, e.g. `[^[:digit:]a-f]`. A `]` right after the
+ * opening bracket is a literal in Postgres, but closes an empty class in JavaScript.
+ */
+function readBracket(scanner: Scanner): string {
+  const { pattern } = scanner
+  let source = "["
+  scanner.index += 1
+
+  if (pattern[scanner.index] === "^") {
+    source += "^"
+    scanner.index += 1
+  }
+  if (pattern[scanner.index] === "]") {
+    source += String.raw`\]`
+    scanner.index += 1
+  }
+
+  while (scanner.index < pattern.length && pattern[scanner.index] !== "]") {
+    const next = pattern.slice(scanner.index, scanner.index + 2)
+
+    if (next === "[:") {
+      source += readPosixClass(scanner)
+    } else if (next === "[." || next === "[=") {
+      throw unsupported(
+        scanner.operator,
+        pattern,
+        "collating elements and equivalence classes"
+      )
+    } else if (next.startsWith("\\")) {
+      source += readEscape(scanner)
+    } else {
+      source += next[0] === "[" ? String.raw`\[` : next[0]
+      scanner.index += 1
+    }
+  }
+
+  if (scanner.index < pattern.length) {
+    source += "]"
+    scanner.index += 1
+  }
+  return source
+}
+
+/**
+ * Creates the JavaScript equivalent of a Postgres regular expression (`~` or `~*` for
+ * `iregex`), used by in-memory checks. Patterns are limited to the syntax both support:
+ * POSIX character classes like `[[:digit:]]` are translated, while named groups,
+ * Unicode property escapes, `\b` and Postgres-only escapes like `\y` throw a
+ * `ParsingQueryError`. `.` matches line breaks, like in Postgres.
+ * @internal
+ */
+export function toRegExp(pattern: string, operator: string): RegExp {
+  const scanner: Scanner = { pattern, operator, index: 0 }
+  let source = ""
+
+  while (scanner.index < pattern.length) {
+    const char = pattern[scanner.index]
+
+    if (char === "[") {
+      source += readBracket(scanner)
+    } else if (char === "\\") {
+      source += readEscape(scanner)
+    } else if (
+      pattern.startsWith("(?<", scanner.index) &&
+      !pattern.startsWith("(?<=", scanner.index) &&
+      !pattern.startsWith("(?<!", scanner.index)
+    ) {
+      throw unsupported(operator, pattern, "named groups ((?<name>…))")
+    } else {
+      source += char
+      scanner.index += 1
+    }
+  }
+
+  try {
+    return new RegExp(source, operator === "iregex" ? "isu" : "su")
+  } catch {
+    throw ParsingQueryError.invalidArgument(
+      operator,
+      pattern,
+      "a regular expression"
+    )
+  }
+}
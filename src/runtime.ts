@@ -7,14 +7,79 @@ export type {
 export {
   createAccessibleByFactory,
   accessibleBy,
+  analyzeAccess,
+  getAccessKind,
+} from "./factories/accessible-by"
+export type {
+  AccessAnalysis,
+  AccessibleByOptions,
+  AccessibleByResult,
+  AccessKind,
 } from "./factories/accessible-by"
-export type { AccessibleByResult } from "./factories/accessible-by"
 export { createAbilityFactory } from "./factories/create-ability"
+export { NotFoundError } from "./not-found-error"
 export { ParsingQueryError } from "./query-error"
+export type {
+  ParsingQueryErrorCode,
+  ParsingQueryErrorDetails,
+  ParsingQueryErrorRule,
+} from "./query-error"
+export { raw } from "./raw-condition"
+export type { RawPredicate, RawSQL } from "./raw-condition"
+export type { JsonPathQuery, JsonValue } from "./json-path"
 export { some, every, none } from "./factories/relation-helpers"
+export type {
+  EveryOptions,
+  RelationCondition,
+  RelationHelperOptions,
+} from "./factories/relation-helpers"
+export { accessibleColumns } from "./factories/accessible-columns"
+export type { ColumnsSelection } from "./factories/accessible-columns"
+export { accessibleQuery } from "./factories/accessible-query"
+export { accessibleSQL } from "./factories/accessible-sql"
+export {
+  assertCanCreate,
+  filterInsertable,
+} from "./factories/assert-can-create"
+export type { AssertCanCreateOptions } from "./factories/assert-can-create"
+export {
+  authorizedDelete,
+  authorizedUpdate,
+} from "./factories/authorized-mutation"
+export type { AuthorizedMutationOptions } from "./factories/authorized-mutation"
+export type { AccessibleSQLOptions } from "./factories/accessible-sql"
+export type { AccessibleQueryOptions } from "./factories/accessible-query"
+export { withAbility } from "./factories/with-ability"
+export type {
+  ScopedDatabase,
+  WithAbilityOptions,
+} from "./factories/with-ability"
+export { conditionsJsonSchema } from "./factories/conditions-json-schema"
+export type { JsonSchema } from "./factories/conditions-json-schema"
+export { validateAbility } from "./factories/validate-ability"
+export type { ValidateAbilityOptions } from "./factories/validate-ability"
+export { explain } from "./factories/explain"
+export type {
+  ConditionTrace,
+  ExplainedRule,
+  Explanation,
+} from "./factories/explain"
+export { verifyConsistency } from "./factories/verify-consistency"
+export type {
+  ConsistencyMismatch,
+  ConsistencyReport,
+} from "./factories/verify-consistency"
 
 // Public API types
-export type { QueryInput, Subjects, DefineDrizzleAbility } from "./types"
+export type {
+  QueryInput,
+  MongoQueryInput,
+  MongoFieldOperators,
+  Subjects,
+  DefineDrizzleAbility,
+  DrizzleAbilityOptions,
+  EverySemantics,
+} from "./types"
 
 // Internal types (exported for use by createDrizzleAbilityFor, but not part of public API)
 export type {
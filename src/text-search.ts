@@ -0,0 +1,133 @@
+import { ParsingQueryError } from "./query-error"
+
+/**
+ * Node of a parsed `to_tsquery()` query.
+ * @internal
+ */
+export type TextSearchQuery =
+  | { type: "term"; lexemes: string[]; prefix: boolean }
+  | { type: "not"; query: TextSearchQuery }
+  | { type: "and" | "or"; queries: TextSearchQuery[] }
+
+// Operators of `to_tsquery()`, phrase operators (`<->`, `<2>`) are matched like `&`
+const TOKEN =
+  /(?<operator><(?:-|\d+)>|[&|!()])|(?<word>[^\s&|!()<]+)|(?<invalid>\S)/gu
+
+const toLexemes = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((lexeme) => lexeme !== "")
+
+const syntaxError = (query: string) =>
+  ParsingQueryError.invalidArgument("search", query, "a to_tsquery() query")
+
+function tokenize(query: string): string[] {
+  return [...query.matchAll(TOKEN)].map(({ groups = {} }) => {
+    if (groups.invalid) {
+      throw syntaxError(query)
+    }
+
+    return groups.operator ?? `:${groups.word}`
+  })
+}
+
+/**
+ * Parses a `to_tsquery()` query, e.g. `finance & !(draft | internal)` or `fin:*`.
+ * @internal
+ */
+export function parseTextSearchQuery(query: string): TextSearchQuery {
+  const tokens = tokenize(query)
+  let position = 0
+
+  function parseUnary(): TextSearchQuery {
+    const token = tokens[position]
+    position += 1
+
+    if (token === "!") {
+      return { type: "not", query: parseUnary() }
+    }
+
+    if (token === "(") {
+      const nested = parseOr()
+      if (tokens[position] !== ")") {
+        throw syntaxError(query)
+      }
+      position += 1
+      return nested
+    }
+
+    if (!token?.startsWith(":")) {
+      throw syntaxError(query)
+    }
+
+    // Weights (`:A`) are ignored, `:*` matches lexemes by prefix
+    const [word = "", suffix = ""] = token.slice(1).split(":")
+    const lexemes = toLexemes(word)
+    if (lexemes.length === 0) {
+      throw syntaxError(query)
+    }
+
+    return { type: "term", lexemes, prefix: suffix.includes("*") }
+  }
+
+  function parseAnd(): TextSearchQuery {
+    const queries = [parseUnary()]
+    while (tokens[position] === "&" || tokens[position]?.startsWith("<")) {
+      position += 1
+      queries.push(parseUnary())
+    }
+    return queries.length === 1
+      ? (queries[0] as TextSearchQuery)
+      : { type: "and", queries }
+  }
+
+  function parseOr(): TextSearchQuery {
+    const queries = [parseAnd()]
+    while (tokens[position] === "|") {
+      position += 1
+      queries.push(parseAnd())
+    }
+    return queries.length === 1
+      ? (queries[0] as TextSearchQuery)
+      : { type: "or", queries }
+  }
+
+  const result = parseOr()
+  if (position !== tokens.length) {
+    throw syntaxError(query)
+  }
+
+  return result
+}
+
+function matchesQuery(lexemes: Set<string>, query: TextSearchQuery): boolean {
+  switch (query.type) {
+    case "term": {
+      return query.lexemes.every((lexeme) =>
+        query.prefix
+          ? [...lexemes].some((candidate) => candidate.startsWith(lexeme))
+          : lexemes.has(lexeme)
+      )
+    }
+    case "not": {
+      return !matchesQuery(lexemes, query.query)
+    }
+    case "and": {
+      return query.queries.every((nested) => matchesQuery(lexemes, nested))
+    }
+    default: {
+      return query.queries.some((nested) => matchesQuery(lexemes, nested))
+    }
+  }
+}
+
+/**
+ * In-memory approximation of `to_tsvector(document) @@ to_tsquery(query)`.
+ * Words are compared case-insensitively, but without stemming and stop words
+ * of the text search configuration, and phrase operators match like `&`.
+ * @internal
+ */
+export function matchesTextSearch(document: string, query: string): boolean {
+  return matchesQuery(new Set(toLexemes(document)), parseTextSearchQuery(query))
+}
@@ -1,11 +1,15 @@
 import type { hkt, Ability } from "@casl/ability"
+import type { Column, GetColumnData, Table } from "drizzle-orm"
 import type {
   DBQueryConfig,
+  TableRelationalConfig,
   TablesRelationalConfig,
 } from "drizzle-orm/relations"
 import type { KnownKeysOnly } from "drizzle-orm/utils"
 
 import type { Model } from "./drizzle-query"
+import type { ValidateAbilityOptions } from "./factories/validate-ability"
+import type { JsonPathQuery } from "./json-path"
 
 /**
  * Unique symbol used by CASL's HKT (Higher-Kinded Types) system.
@@ -52,7 +56,7 @@ export type WhereInput = Record<string, unknown>
  * Typed query input for Drizzle tables with full operator support.
  * Extracts the complete query type from Drizzle's RQB v2, including all field operators
  * (comparison, membership, string, null, relation, and compound operators), nested relations,
- * and raw SQL conditions.
+ * raw SQL conditions and JSON path conditions for `json` / `jsonb` columns.
  *
  * @template TSchema - The Drizzle relations configuration object
  * @template TTableName - The key of the table within TSchema
@@ -102,6 +106,112 @@ export type QueryInput<
    * ```
    */
   RAW?: unknown
+} & JsonPathFilters<TSchema[TTableName]>
+
+type JsonColumnKeys<TTable extends TableRelationalConfig> = {
+  [K in keyof TableColumns<TTable>]: TableColumns<TTable>[K] extends {
+    _: { dataType: "object json" }
+  }
+    ? K
+    : never
+}[keyof TableColumns<TTable>]
+
+/**
+ * JSON path conditions of the `json` / `jsonb` columns of a table, see `JsonPathQuery`.
+ */
+type JsonPathFilters<TTable extends TableRelationalConfig> = Partial<
+  Record<JsonColumnKeys<TTable>, { json?: JsonPathQuery }>
+>
+
+/**
+ * Mongo operators for a column holding values of type `T`, as used by CASL's default format.
+ * Each operator is mapped onto the equivalent Drizzle operator, e.g. `$in` onto `in`.
+ * For nullable columns, `T` includes `null`, which only `$eq` and `$ne` accept.
+ *
+ * @template T - The data type of the column
+ */
+export interface MongoFieldOperators<T> {
+  $eq?: T
+  $ne?: T
+  $lt?: NonNullable<T>
+  $lte?: NonNullable<T>
+  $gt?: NonNullable<T>
+  $gte?: NonNullable<T>
+  $in?: NonNullable<T>[]
+  $nin?: NonNullable<T>[]
+  /** `false` matches `NULL` columns */
+  $exists?: boolean
+  /** Array columns only, matches arrays containing all given elements */
+  $all?: T extends (infer TElement)[] ? TElement[] : never
+  /** Text columns only, matches like `regex` */
+  $regex?: T extends string ? string : never
+  /** Options of `$regex`, only `"i"` (like `iregex`) is supported */
+  $options?: T extends string ? "i" | "" : never
+  $not?: MongoFieldOperators<T>
+}
+
+type TableColumns<TTable extends TableRelationalConfig> =
+  TTable["table"] extends Table ? TTable["table"]["_"]["columns"] : never
+
+// Values of the column as selected, including `null` for nullable columns
+type ColumnData<TColumn> = TColumn extends Column
+  ? GetColumnData<TColumn>
+  : never
+
+type ManyRelationKeys<TTable extends TableRelationalConfig> = {
+  [K in keyof TTable["relations"]]: TTable["relations"][K]["relationType"] extends "many"
+    ? K
+    : never
+}[keyof TTable["relations"]]
+
+/**
+ * Typed query input for Drizzle tables using the Mongo operators of CASL's default format
+ * (`$eq`, `$in`, `$exists`, …). Use it instead of `QueryInput` for rules shared with
+ * other CASL integrations. Operator values are typed by the data type of each column,
+ * many relations accept `$elemMatch` with a query for the related table.
+ *
+ * @template TSchema - The Drizzle relations configuration object
+ * @template TTableName - The key of the table within TSchema
+ *
+ * @example
+ * ```ts
+ * import type { MongoQueryInput } from "@noxify/casl-drizzle"
+ *
+ * type SubjectMap = {
+ *   posts: MongoQueryInput<typeof relations, "posts">
+ * }
+ *
+ * const ability = createDrizzleAbility<SubjectMap>((can) => {
+ *   can("read", "posts", { authorId: { $in: [1, 2] } })
+ *   can("update", "posts", {
+ *     $or: [{ authorId: 1 }, { comments: { $elemMatch: { authorId: 1 } } }],
+ *   })
+ * })
+ * ```
+ */
+export type MongoQueryInput<
+  TSchema extends TablesRelationalConfig,
+  TTableName extends keyof TSchema,
+> = {
+  [K in keyof TableColumns<TSchema[TTableName]>]?:
+    | ColumnData<TableColumns<TSchema[TTableName]>[K]>
+    | MongoFieldOperators<ColumnData<TableColumns<TSchema[TTableName]>[K]>>
+} & {
+  [K in ManyRelationKeys<TSchema[TTableName]>]?: {
+    $elemMatch: MongoQueryInput<
+      TSchema,
+      TSchema[TTableName]["relations"][K]["targetTableName"]
+    >
+  }
+} & {
+  $and?: MongoQueryInput<TSchema, TTableName>[]
+  $or?: MongoQueryInput<TSchema, TTableName>[]
+  /** None of the queries may match */
+  $nor?: MongoQueryInput<TSchema, TTableName>[]
+  /**
+   * Optional raw SQL condition, see `QueryInput`.
+   */
+  RAW?: unknown
 }
 
 /**
@@ -188,3 +298,57 @@ export type DefineDrizzleAbility<
   T,
   TActions extends string = string,
 > = DrizzleAbility<T, TActions>
+
+/**
+ * Options of abilities created by `createDrizzleAbility()` and `createDrizzleAbilityFor()`.
+ */
+export interface DrizzleAbilityOptions {
+  /**
+   * How in-memory checks (e.g. `ability.can()`) evaluate RAW conditions without a
+   * JavaScript predicate attached by `raw()`:
+   * - `"allow"` treats them as matching (default)
+   * - `"deny"` treats them as not matching. Rules where this would grant access instead
+   *   (RAW conditions in `cannot` rules or within `NOT`) throw a `ParsingQueryError`
+   *   when the ability is created
+   * - `"throw"` throws a `ParsingQueryError`
+   *
+   * Database queries always use the SQL of RAW conditions.
+   * @default "allow"
+   */
+  rawConditions?: "allow" | "deny" | "throw"
+  /**
+   * Logic used by in-memory checks (e.g. `ability.can()`) for `null` values:
+   * - `"js"` compares `null` like any other JavaScript value (default)
+   * - `"sql"` emulates SQL's three-valued logic, so that comparisons with `NULL` are
+   *   UNKNOWN and `NOT` keeps UNKNOWN. A record matches when its conditions are TRUE,
+   *   like a row returned by the queries of `accessibleBy()` and `accessibleSQL()`.
+   * @default "js"
+   */
+  nullSemantics?: "js" | "sql"
+  /**
+   * Semantics of `every` relation conditions for records without related records:
+   * - `"strict"` requires at least one related record (default)
+   * - `"vacuous"` also matches records without related records, like Prisma's `every`
+   *
+   * Applies to in-memory checks, `accessibleBy()` and `accessibleSQL()` alike.
+   * A single condition can override it with `every(condition, { semantics })`.
+   * @default "strict"
+   */
+  everySemantics?: EverySemantics
+  /**
+   * Validates every rule with `validateAbility()` when the ability is created or updated,
+   * so that unknown fields and relations or invalid operators throw a `ParsingQueryError`
+   * instead of being ignored.
+   *
+   * @example
+   * ```ts
+   * createDrizzleAbility(define, { strict: { relations } })
+   * ```
+   */
+  strict?: ValidateAbilityOptions & { relations: TablesRelationalConfig }
+}
+
+/**
+ * Semantics of `every` relation conditions for records without related records.
+ */
+export type EverySemantics = "strict" | "vacuous"
@@ -0,0 +1,190 @@
+import { ForbiddenError } from "@casl/ability"
+import { beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import type { QueryInput } from "../src"
+import {
+  accessibleBy,
+  analyzeAccess,
+  createDrizzleAbility,
+  getAccessKind,
+} from "../src"
+import { createDb, resetDb } from "./setup"
+import type { relations } from "./setup/schema"
+import { schema } from "./setup/schema"
+
+type AllowedAction = "read" | "update"
+
+interface SubjectMap {
+  users: QueryInput<typeof relations, "users">
+  posts: QueryInput<typeof relations, "posts">
+}
+
+const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+  can("read", "users")
+  can("read", "posts", { authorId: 1 })
+})
+
+describe("accessibleBy onForbidden (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb()
+  })
+
+  beforeEach(async () => {
+    await resetDb(db)
+
+    await db.insert(schema.users).values([
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bob" },
+    ])
+
+    await db.insert(schema.posts).values([
+      { id: 1, content: "Alice post", authorId: 1 },
+      { id: 2, content: "Bob post", authorId: 2 },
+    ])
+  })
+
+  it("should throw ForbiddenError by default", () => {
+    expect(() => accessibleBy(ability, "update").posts).toThrow(ForbiddenError)
+    expect(
+      () => accessibleBy(ability, "update", { onForbidden: "throw" }).posts
+    ).toThrow(ForbiddenError)
+  })
+
+  it("should return a filter matching nothing", async () => {
+    const where = accessibleBy(ability, "update", {
+      onForbidden: "empty",
+    }).ofType("posts")
+
+    await expect(db.query.posts.findMany({ where })).resolves.toStrictEqual([])
+  })
+
+  it("should compose the empty filter with other filters", async () => {
+    const denied = accessibleBy(ability, "update", {
+      onForbidden: "empty",
+    }).posts
+
+    await expect(
+      db.query.posts.findMany({ where: { AND: [denied, { id: 1 }] } })
+    ).resolves.toStrictEqual([])
+
+    const posts = await db.query.posts.findMany({
+      where: { OR: [denied, { id: 2 }] },
+    })
+    expect(posts.map((post) => post.id)).toStrictEqual([2])
+  })
+
+  it("should not affect subjects with matching rules", async () => {
+    const filters = accessibleBy(ability, "read", { onForbidden: "empty" })
+    const posts = await db.query.posts.findMany({ where: filters.posts })
+
+    expect(posts.map((post) => post.id)).toStrictEqual([1])
+  })
+
+  it("should describe the kind of access", () => {
+    const filters = accessibleBy(ability, "read", { onForbidden: "empty" })
+
+    expect(getAccessKind(filters.users)).toBe("all")
+    expect(getAccessKind(filters.posts)).toBe("conditional")
+    expect(
+      getAccessKind(
+        accessibleBy(ability, "update", { onForbidden: "empty" }).posts
+      )
+    ).toBe("none")
+  })
+})
+
+describe("access analysis (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb()
+  })
+
+  beforeEach(async () => {
+    await resetDb(db)
+
+    await db.insert(schema.users).values([
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bob" },
+    ])
+
+    await db.insert(schema.posts).values([
+      { id: 1, content: "Alice post", authorId: 1 },
+      { id: 2, content: "Bob post", authorId: 2 },
+      { id: 3, content: "Draft", authorId: 1 },
+    ])
+  })
+
+  it("should distinguish unconditional and denied access", () => {
+    expect(analyzeAccess(ability, "read", "users")).toStrictEqual({
+      kind: "all",
+    })
+    expect(analyzeAccess(ability, "update", "posts")).toStrictEqual({
+      kind: "none",
+    })
+  })
+
+  it("should treat an unconditional inverted rule as denied", () => {
+    const denied = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can, cannot) => {
+        can("read", "posts", { authorId: 1 })
+        cannot("read", "posts")
+      }
+    )
+
+    expect(analyzeAccess(denied, "read", "posts")).toStrictEqual({
+      kind: "none",
+    })
+  })
+
+  it("should list the contributing rules of conditional access", () => {
+    const conditional = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can, cannot) => {
+        can("read", "posts", { authorId: 1 })
+        can("read", "posts", { authorId: 2 })
+        cannot("read", "posts", { content: "Draft" })
+      }
+    )
+
+    const access = analyzeAccess(conditional, "read", "posts")
+
+    expect(access.kind).toBe("conditional")
+    if (access.kind !== "conditional") {
+      return
+    }
+
+    expect(
+      access.rules.map((rule) => [rule.inverted, rule.conditions])
+    ).toStrictEqual([
+      [true, { content: "Draft" }],
+      [false, { authorId: 2 }],
+      [false, { authorId: 1 }],
+    ])
+    expect(access.where).toStrictEqual({
+      OR: [
+        { AND: [{ authorId: 2 }, { NOT: { content: "Draft" } }] },
+        { AND: [{ authorId: 1 }, { NOT: { content: "Draft" } }] },
+      ],
+    })
+  })
+
+  it("should keep inverted rules next to an unconditional rule", async () => {
+    const restricted = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can, cannot) => {
+        can("read", "posts")
+        cannot("read", "posts", { authorId: 2 })
+      }
+    )
+
+    const access = analyzeAccess(restricted, "read", "posts")
+    expect(access.kind).toBe("conditional")
+
+    const where = accessibleBy(restricted, "read").posts
+    expect(getAccessKind(where)).toBe("conditional")
+
+    const posts = await db.query.posts.findMany({ where })
+    expect(posts.map((post) => post.id).toSorted()).toStrictEqual([1, 3])
+  })
+})
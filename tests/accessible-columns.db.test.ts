@@ -0,0 +1,210 @@
+import { AbilityBuilder, ForbiddenError } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { DefineDrizzleAbility, QueryInput } from "../src"
+import {
+  accessibleColumns,
+  accessibleQuery,
+  createDrizzleAbilityFor,
+  withAbility,
+} from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+type AllowedAction = "read" | "update"
+
+interface SubjectMap {
+  users: QueryInput<typeof relations, "users">
+  posts: QueryInput<typeof relations, "posts">
+  comments: QueryInput<typeof relations, "comments">
+  simpleTable: QueryInput<typeof relations, "simpleTable">
+}
+
+type AppAbility = DefineDrizzleAbility<SubjectMap, AllowedAction>
+
+function defineAbility(
+  define: (builder: AbilityBuilder<AppAbility>) => void
+): AppAbility {
+  const builder = new AbilityBuilder<AppAbility>(
+    createDrizzleAbilityFor<SubjectMap, AllowedAction>()
+  )
+  define(builder)
+  return builder.build()
+}
+
+describe("accessibleColumns (field rules)", () => {
+  it("should return all columns for rules without fields", () => {
+    const ability = defineAbility(({ can }) => {
+      can("read", "users")
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "users", schema.users)
+    ).toStrictEqual({ id: true, name: true })
+  })
+
+  it("should only return permitted fields", () => {
+    const ability = defineAbility(({ can }) => {
+      can("read", "simpleTable", ["id", "name"])
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "simpleTable", schema.simpleTable)
+    ).toStrictEqual({ id: true, name: true })
+  })
+
+  it("should resolve wildcard field patterns against the table columns", () => {
+    const ability = defineAbility(({ can }) => {
+      can("read", "comments", ["*Id"])
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "comments", schema.comments)
+    ).toStrictEqual({ authorId: true, postId: true })
+  })
+
+  it("should remove fields of inverted rules", () => {
+    const ability = defineAbility(({ can, cannot }) => {
+      can("read", "simpleTable")
+      cannot("read", "simpleTable", ["note", "tags"])
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "simpleTable", schema.simpleTable)
+    ).toStrictEqual({ id: true, name: true, nums: true })
+  })
+
+  it("should exclude fields of conditional rules which not every row is granted", () => {
+    const ability = defineAbility(({ can }) => {
+      can("read", "posts", ["id"])
+      can("read", "posts", ["content"], { authorId: 1 })
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "posts", schema.posts)
+    ).toStrictEqual({ id: true })
+  })
+
+  it("should include fields which every conditional rule grants", () => {
+    const ability = defineAbility(({ can }) => {
+      can("read", "posts", { authorId: 1 })
+      can("read", "posts", ["id", "content"], { id: 2 })
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "posts", schema.posts)
+    ).toStrictEqual({ id: true, content: true })
+  })
+
+  it("should revoke fields of conditional inverted rules", () => {
+    const ability = defineAbility(({ can, cannot }) => {
+      can("read", "posts")
+      cannot("read", "posts", ["content"], { authorId: 2 })
+      cannot("read", "posts", { id: 3 })
+    })
+
+    expect(
+      accessibleColumns(ability, "read", "posts", schema.posts)
+    ).toStrictEqual({ id: true, authorId: true })
+  })
+
+  it("should throw ForbiddenError when no column is permitted", () => {
+    const ability = defineAbility(({ can, cannot }) => {
+      can("read", "users")
+      cannot("read", "users", ["id", "name"])
+    })
+
+    expect(() =>
+      accessibleColumns(ability, "read", "users", schema.users)
+    ).toThrow(ForbiddenError)
+  })
+})
+
+describe("accessibleQuery with columns (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.users).values([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+      ])
+
+      await dbClient.insert(schema.posts).values([
+        { id: 1, content: "Alice post", authorId: 1 },
+        { id: 2, content: "Bob post", authorId: 2 },
+      ])
+
+      await dbClient
+        .insert(schema.comments)
+        .values([{ id: 1, text: "Bob on Alice", authorId: 2, postId: 1 }])
+    })
+  })
+
+  const ability = defineAbility(({ can }) => {
+    can("read", "posts", ["id", "content"], { authorId: 1 })
+    can("read", "users", ["name"])
+    can("read", "comments", ["id", "text"])
+  })
+
+  it("should combine row filter and column projection in a single call", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(ability, "read", relations, "posts", undefined, {
+        columns: true,
+      })
+    )
+
+    expect(posts).toStrictEqual([{ id: 1, content: "Alice post" }])
+  })
+
+  it("should project the permitted columns of nested relations", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(
+        ability,
+        "read",
+        relations,
+        "posts",
+        { with: { author: true, comments: true } },
+        { columns: true }
+      )
+    )
+
+    expect(posts).toStrictEqual([
+      {
+        id: 1,
+        content: "Alice post",
+        author: { name: "Alice" },
+        comments: [{ id: 1, text: "Bob on Alice" }],
+      },
+    ])
+  })
+
+  it("should intersect the caller's columns with the permitted columns", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(
+        ability,
+        "read",
+        relations,
+        "posts",
+        {
+          columns: { content: true, authorId: true },
+          with: { comments: { columns: { text: false } } },
+        },
+        { columns: true }
+      )
+    )
+
+    expect(posts).toStrictEqual([
+      { content: "Alice post", comments: [{ id: 1 }] },
+    ])
+  })
+
+  it("should project columns through withAbility", async () => {
+    const scopedDb = withAbility(db, ability, { columns: true })
+
+    await expect(scopedDb.query.users.findMany()).resolves.toStrictEqual([
+      { name: "Alice" },
+      { name: "Bob" },
+    ])
+  })
+})
@@ -0,0 +1,192 @@
+import { ForbiddenError } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { QueryInput } from "../src"
+import { accessibleQuery, createDrizzleAbility } from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+const idsOf = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+describe("accessibleQuery (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.users).values([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+        { id: 3, name: "Charlie" },
+      ])
+
+      await dbClient.insert(schema.posts).values([
+        { id: 1, content: "Alice first post", authorId: 1 },
+        { id: 2, content: "Alice second post", authorId: 1 },
+        { id: 3, content: "Bob post", authorId: 2 },
+      ])
+
+      await dbClient.insert(schema.comments).values([
+        { id: 1, text: "Bob on Alice", authorId: 2, postId: 1 },
+        { id: 2, text: "Charlie on Alice", authorId: 3, postId: 1 },
+        { id: 3, text: "Bob on Alice again", authorId: 2, postId: 2 },
+        { id: 4, text: "Bob on Bob", authorId: 2, postId: 3 },
+      ])
+
+      await dbClient.insert(schema.groups).values([
+        { id: 1, name: "Admins" },
+        { id: 2, name: "Editors" },
+      ])
+
+      await dbClient.insert(schema.usersToGroups).values([
+        { userId: 1, groupId: 1 },
+        { userId: 1, groupId: 2 },
+        { userId: 2, groupId: 2 },
+      ])
+    })
+  })
+
+  type AllowedAction = "read" | "update"
+
+  interface SubjectMap {
+    posts: QueryInput<typeof relations, "posts">
+    users: QueryInput<typeof relations, "users">
+    comments: QueryInput<typeof relations, "comments">
+    groups: QueryInput<typeof relations, "groups">
+    reviews: QueryInput<typeof relations, "comments">
+  }
+
+  const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+    can("read", "posts", { authorId: 1 })
+    can("read", "comments", { authorId: 2 })
+    can("read", "users", { name: { ne: "Bob" } })
+    can("read", "groups", { name: "Editors" })
+    can("update", "posts", { id: 2 })
+    can("update", "comments", { id: 3 })
+    can("read", "reviews", { authorId: 3 })
+  })
+
+  it("should scope the root table like accessibleBy", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(ability, "read", relations, "posts")
+    )
+
+    expect(idsOf(posts)).toStrictEqual([1, 2])
+  })
+
+  it("should filter many relations loaded via with", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(ability, "read", relations, "posts", {
+        with: { comments: true },
+        orderBy: { id: "asc" },
+      })
+    )
+
+    expect(posts.map((post) => idsOf(post.comments))).toStrictEqual([[1], [3]])
+  })
+
+  it("should filter one relations loaded via with", async () => {
+    const comments = await db.query.comments.findMany(
+      accessibleQuery(ability, "read", relations, "comments", {
+        with: { post: true },
+        orderBy: { id: "asc" },
+      })
+    )
+
+    expect(comments.map((comment) => comment.post?.id ?? null)).toStrictEqual([
+      1,
+      2,
+      null,
+    ])
+  })
+
+  it("should keep nested where and filter deeply nested relations", async () => {
+    const users = await db.query.users.findMany(
+      accessibleQuery(ability, "read", relations, "users", {
+        with: {
+          posts: {
+            where: { id: { gt: 1 } },
+            with: { comments: true },
+          },
+        },
+        orderBy: { id: "asc" },
+      })
+    )
+
+    expect(
+      users.map((user) => ({
+        id: user.id,
+        posts: user.posts.map((post) => ({
+          id: post.id,
+          comments: idsOf(post.comments),
+        })),
+      }))
+    ).toStrictEqual([
+      { id: 1, posts: [{ id: 2, comments: [3] }] },
+      { id: 3, posts: [] },
+    ])
+  })
+
+  it("should filter many-to-many relations", async () => {
+    const users = await db.query.users.findMany(
+      accessibleQuery(ability, "read", relations, "users", {
+        where: { id: 1 },
+        with: { groups: true },
+      })
+    )
+
+    expect(users.map((user) => idsOf(user.groups))).toStrictEqual([[2]])
+  })
+
+  it("should use per-relation actions", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(
+        ability,
+        "update",
+        relations,
+        "posts",
+        { with: { comments: true, author: true } },
+        { actions: { author: "read" } }
+      )
+    )
+
+    expect(
+      posts.map((post) => ({
+        id: post.id,
+        comments: idsOf(post.comments),
+        author: post.author?.id,
+      }))
+    ).toStrictEqual([{ id: 2, comments: [3], author: 1 }])
+  })
+
+  it("should map table keys to subjects", async () => {
+    const posts = await db.query.posts.findMany(
+      accessibleQuery(
+        ability,
+        "read",
+        relations,
+        "posts",
+        { with: { comments: true }, orderBy: { id: "asc" } },
+        { subjects: { comments: "reviews" } }
+      )
+    )
+
+    expect(posts.map((post) => idsOf(post.comments))).toStrictEqual([[2], []])
+  })
+
+  it("should leave disabled relations untouched", () => {
+    const config = accessibleQuery(ability, "read", relations, "posts", {
+      with: { comments: false },
+    })
+
+    expect(config.with).toStrictEqual({ comments: false })
+  })
+
+  it("should throw ForbiddenError for forbidden nested relations", () => {
+    expect(() =>
+      accessibleQuery(ability, "update", relations, "posts", {
+        with: { author: true },
+      })
+    ).toThrow(ForbiddenError)
+  })
+})
@@ -0,0 +1,291 @@
+import { ForbiddenError } from "@casl/ability"
+import { and, eq, sql } from "drizzle-orm"
+import { beforeEach, beforeAll, describe, expect, it } from "vitest"
+
+import type { QueryInput } from "../src"
+import {
+  accessibleSQL,
+  createDrizzleAbility,
+  every,
+  none,
+  ParsingQueryError,
+  raw,
+  some,
+} from "../src"
+import { createDb, resetDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+const idsOf = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+type AllowedAction = "read" | "update" | "delete"
+
+interface SubjectMap {
+  posts: QueryInput<typeof relations, "posts">
+  users: QueryInput<typeof relations, "users">
+  comments: QueryInput<typeof relations, "comments">
+  articles: QueryInput<typeof relations, "posts">
+}
+
+// Relation quantifiers (some, every, none, is, isNot) are not part of the RQB v2 types
+interface UntypedSubjectMap {
+  posts: Record<string, unknown>
+  users: Record<string, unknown>
+}
+
+describe("accessibleSQL (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb()
+  })
+
+  beforeEach(async () => {
+    await resetDb(db)
+
+    await db.insert(schema.users).values([
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bob" },
+      { id: 3, name: "Charlie" },
+    ])
+
+    await db.insert(schema.posts).values([
+      { id: 1, content: "Alice first post", authorId: 1 },
+      { id: 2, content: "Alice second post", authorId: 1 },
+      { id: 3, content: "Bob post", authorId: 2 },
+      { id: 4, content: "Charlie post", authorId: 3 },
+    ])
+
+    await db.insert(schema.comments).values([
+      { id: 1, text: "Nice", authorId: 2, postId: 1 },
+      { id: 2, text: "Spam", authorId: 3, postId: 1 },
+      { id: 3, text: "Nice", authorId: 2, postId: 3 },
+    ])
+
+    await db.insert(schema.groups).values([
+      { id: 1, name: "Admins" },
+      { id: 2, name: "Editors" },
+    ])
+
+    await db.insert(schema.usersToGroups).values([
+      { userId: 1, groupId: 1 },
+      { userId: 2, groupId: 2 },
+    ])
+  })
+
+  const selectPosts = (where: ReturnType<typeof accessibleSQL>) =>
+    db.select().from(schema.posts).where(where)
+
+  it("should filter db.select() by column conditions", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("read", "posts", { authorId: 1 })
+      can("read", "posts", { content: { like: "Bob%" } })
+    })
+
+    const rows = await selectPosts(
+      accessibleSQL(ability, "read", schema.posts, relations)
+    )
+
+    expect(idsOf(rows)).toStrictEqual([1, 2, 3])
+  })
+
+  it("should apply inverted rules", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can, cannot) => {
+        can("read", "posts")
+        cannot("read", "posts", { authorId: { in: [1, 3] } })
+      }
+    )
+
+    const rows = await selectPosts(
+      accessibleSQL(ability, "read", schema.posts, relations)
+    )
+
+    expect(idsOf(rows)).toStrictEqual([3])
+  })
+
+  it("should scope db.update()", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("update", "posts", { authorId: 1 })
+    })
+
+    const updated = await db
+      .update(schema.posts)
+      .set({ content: "updated" })
+      .where(
+        and(
+          eq(schema.posts.id, 3),
+          accessibleSQL(ability, "update", schema.posts, relations)
+        )
+      )
+      .returning()
+
+    expect(updated).toStrictEqual([])
+
+    const allowed = await db
+      .update(schema.posts)
+      .set({ content: "updated" })
+      .where(accessibleSQL(ability, "update", schema.posts, relations))
+      .returning()
+
+    expect(idsOf(allowed)).toStrictEqual([1, 2])
+  })
+
+  it("should scope db.delete() with relation conditions", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("delete", "comments", { post: { author: { name: "Alice" } } })
+    })
+
+    const deleted = await db
+      .delete(schema.comments)
+      .where(accessibleSQL(ability, "delete", schema.comments, relations))
+      .returning()
+
+    expect(idsOf(deleted)).toStrictEqual([1, 2])
+  })
+
+  it("should compile some, every, none and is to correlated subqueries", async () => {
+    const abilityFor = (conditions: UntypedSubjectMap["posts"]) =>
+      createDrizzleAbility<UntypedSubjectMap, AllowedAction>((can) => {
+        can("read", "posts", conditions)
+      })
+
+    const query = (conditions: UntypedSubjectMap["posts"]) =>
+      selectPosts(
+        accessibleSQL(abilityFor(conditions), "read", schema.posts, relations)
+      ).then(idsOf)
+
+    await expect(
+      query({ comments: { some: { text: "Spam" } } })
+    ).resolves.toStrictEqual([1])
+    await expect(
+      query({ comments: { every: { text: "Nice" } } })
+    ).resolves.toStrictEqual([3])
+    await expect(
+      query({ comments: { none: { text: "Spam" } } })
+    ).resolves.toStrictEqual([2, 3, 4])
+    await expect(
+      query({ author: { is: { name: "Charlie" } } })
+    ).resolves.toStrictEqual([4])
+    await expect(
+      query({ author: { isNot: { name: "Alice" } } })
+    ).resolves.toStrictEqual([3, 4])
+  })
+
+  it("should compile the relation helpers to correlated subqueries", async () => {
+    const abilityFor = (conditions: SubjectMap["posts"]) =>
+      createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+        can("read", "posts", conditions)
+      })
+
+    const query = (conditions: SubjectMap["posts"]) =>
+      selectPosts(
+        accessibleSQL(abilityFor(conditions), "read", schema.posts, relations)
+      ).then(idsOf)
+
+    await expect(
+      query({ comments: none(sql`text = 'Spam'`) })
+    ).resolves.toStrictEqual([2, 3, 4])
+    await expect(
+      query({
+        comments: every(schema.comments, ({ eq: eqFn, columns }) =>
+          eqFn(columns.text, "Nice")
+        ),
+      })
+    ).resolves.toStrictEqual([3])
+    await expect(query({ comments: none() })).resolves.toStrictEqual([2, 4])
+    await expect(
+      query({
+        comments: some(
+          schema.comments,
+          ({ eq: eqFn, columns, parent }) =>
+            eqFn(columns.authorId, parent.authorId),
+          { parent: schema.posts }
+        ),
+      })
+    ).resolves.toStrictEqual([3])
+    await expect(
+      query({
+        comments: some({
+          ...raw((comment, { eq: eqFn }, post) =>
+            eqFn(comment.authorId, post.authorId)
+          ),
+        }),
+      })
+    ).resolves.toStrictEqual([3])
+  })
+
+  it("should resolve many-to-many relations through the junction table", async () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, AllowedAction>(
+      (can) => {
+        can("read", "users", { groups: { some: { name: "Editors" } } })
+      }
+    )
+
+    const rows = await db
+      .select()
+      .from(schema.users)
+      .where(accessibleSQL(ability, "read", schema.users, relations))
+
+    expect(idsOf(rows)).toStrictEqual([2])
+  })
+
+  it("should support RAW conditions", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("read", "posts", { RAW: (table) => sql`${table.id} % 2 = 0` })
+      can("read", "posts", { RAW: sql`${schema.posts.content} = 'Bob post'` })
+    })
+
+    const rows = await selectPosts(
+      accessibleSQL(ability, "read", schema.posts, relations)
+    )
+
+    expect(idsOf(rows)).toStrictEqual([2, 3, 4])
+  })
+
+  it("should return an always-true condition for unconditional access", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("read", "posts")
+    })
+
+    const rows = await selectPosts(
+      accessibleSQL(ability, "read", schema.posts, relations)
+    )
+
+    expect(idsOf(rows)).toStrictEqual([1, 2, 3, 4])
+  })
+
+  it("should use the subject option", async () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("read", "articles", { authorId: 2 })
+    })
+
+    const rows = await selectPosts(
+      accessibleSQL(ability, "read", schema.posts, relations, {
+        subject: "articles",
+      })
+    )
+
+    expect(idsOf(rows)).toStrictEqual([3])
+  })
+
+  it("should throw ForbiddenError without matching rules", () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("read", "users")
+    })
+
+    expect(() =>
+      accessibleSQL(ability, "read", schema.posts, relations)
+    ).toThrow(ForbiddenError)
+  })
+
+  it("should throw ParsingQueryError for unknown columns", () => {
+    const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+      can("read", "posts", { title: "unknown" } as SubjectMap["posts"])
+    })
+
+    expect(() =>
+      accessibleSQL(ability, "read", schema.posts, relations)
+    ).toThrow(ParsingQueryError)
+  })
+})
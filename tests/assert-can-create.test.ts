@@ -0,0 +1,271 @@
+import { AbilityBuilder, ForbiddenError } from "@casl/ability"
+import { sql } from "drizzle-orm"
+import { describe, expect, it } from "vitest"
+
+import type { DefineDrizzleAbility, QueryInput } from "../src"
+import {
+  assertCanCreate,
+  createDrizzleAbility,
+  createDrizzleAbilityFor,
+  filterInsertable,
+  ParsingQueryError,
+  raw,
+} from "../src"
+import { relations } from "./setup/schema"
+
+type AllowedAction = "create" | "import"
+
+interface SubjectMap {
+  posts: QueryInput<typeof relations, "posts">
+  users: QueryInput<typeof relations, "users">
+}
+
+// Relation quantifiers (some, every, none, is, isNot) are not part of the RQB v2 types
+interface UntypedSubjectMap {
+  posts: Record<string, unknown>
+  documents: Record<string, unknown>
+}
+
+const currentUserId = 1
+
+type AppAbility = DefineDrizzleAbility<SubjectMap, AllowedAction>
+
+function defineAbility(
+  define: (builder: AbilityBuilder<AppAbility>) => void
+): AppAbility {
+  const builder = new AbilityBuilder<AppAbility>(
+    createDrizzleAbilityFor<SubjectMap, AllowedAction>()
+  )
+  define(builder)
+  return builder.build()
+}
+
+const ability = defineAbility(({ can, cannot }) => {
+  can("create", "posts", { authorId: currentUserId })
+  cannot("create", "posts", { content: { like: "spam%" } }).because(
+    "spam is not allowed"
+  )
+  can("import", "posts", { authorId: { in: [1, 2] } })
+})
+
+describe("create rule checks", () => {
+  it("should accept payloads matching the create conditions", () => {
+    expect(() =>
+      assertCanCreate(ability, "posts", {
+        id: 1,
+        content: "Hello",
+        authorId: currentUserId,
+      })
+    ).not.toThrow()
+  })
+
+  it("should report the field and rule that failed", () => {
+    const check = () =>
+      assertCanCreate(ability, "posts", { id: 1, content: "Hi", authorId: 2 })
+
+    expect(check).toThrow(ForbiddenError)
+    expect(check).toThrow(
+      `It's not allowed to run "create" on "posts": "authorId" does not satisfy rule #0`
+    )
+    expect(check).toThrow(
+      expect.objectContaining({
+        action: "create",
+        subjectType: "posts",
+        field: "authorId",
+      })
+    )
+  })
+
+  it("should report inverted rules with their reason", () => {
+    expect(() =>
+      assertCanCreate(ability, "posts", {
+        id: 1,
+        content: "spam offer",
+        authorId: currentUserId,
+      })
+    ).toThrow(`the row is denied by rule #1 (spam is not allowed)`)
+  })
+
+  it("should throw when no rule grants the action", () => {
+    expect(() =>
+      assertCanCreate(ability, "users", { id: 1, name: "Alice" })
+    ).toThrow(`It's not allowed to run "create" on "users": no rule permits`)
+  })
+
+  it("should support custom actions", () => {
+    expect(() =>
+      assertCanCreate(
+        ability,
+        "posts",
+        { id: 1, content: "Imported", authorId: 2 },
+        { action: "import" }
+      )
+    ).not.toThrow()
+  })
+
+  it("should check field-level rules for every key of the payload", () => {
+    const fieldAbility = defineAbility(({ can }) => {
+      can("create", "posts", ["content", "authorId"], {
+        authorId: currentUserId,
+      })
+    })
+
+    expect(() =>
+      assertCanCreate(fieldAbility, "posts", {
+        content: "Hello",
+        authorId: currentUserId,
+      })
+    ).not.toThrow()
+    expect(() =>
+      assertCanCreate(fieldAbility, "posts", {
+        id: 5,
+        content: "Hello",
+        authorId: currentUserId,
+      })
+    ).toThrow(`no rule permits field "id"`)
+  })
+
+  it("should filter insertable rows", () => {
+    const rows = [
+      { id: 1, content: "Mine", authorId: 1 },
+      { id: 2, content: "Not mine", authorId: 2 },
+      { id: 3, content: "spam", authorId: 1 },
+    ]
+
+    expect(filterInsertable(ability, "posts", rows)).toStrictEqual([rows[0]])
+  })
+
+  it("should reject RAW conditions", () => {
+    const rawAbility = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can) => {
+        can("create", "posts", { RAW: sql`true` })
+      }
+    )
+
+    expect(() =>
+      assertCanCreate(rawAbility, "posts", { id: 1, content: "Hello" })
+    ).toThrow(ParsingQueryError)
+    expect(() =>
+      filterInsertable(rawAbility, "posts", [{ id: 1, content: "Hello" }])
+    ).toThrow(
+      `Rule #0 for "create" on "posts" uses a RAW (without predicate) condition`
+    )
+  })
+
+  it("should evaluate RAW conditions with predicate", () => {
+    const rawAbility = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can) => {
+        can(
+          "create",
+          "posts",
+          raw(sql`true`, (post: { content?: string }) => post.content !== "")
+        )
+      }
+    )
+
+    expect(() =>
+      assertCanCreate(rawAbility, "posts", { id: 1, content: "Hello" })
+    ).not.toThrow()
+    expect(() =>
+      assertCanCreate(rawAbility, "posts", { id: 1, content: "" })
+    ).toThrow(ForbiddenError)
+  })
+
+  it("should reject relation conditions", () => {
+    const relationAbility = createDrizzleAbility<
+      UntypedSubjectMap,
+      AllowedAction
+    >((can) => {
+      can("create", "posts", { comments: { none: { text: "Spam" } } })
+    })
+
+    expect(() =>
+      assertCanCreate(relationAbility, "posts", { id: 1, content: "Hello" })
+    ).toThrow(`uses a relation ("some") condition`)
+  })
+
+  it("should reject relation conditions without quantifier", () => {
+    const relationAbility = createDrizzleAbility<
+      UntypedSubjectMap,
+      AllowedAction
+    >((can) => {
+      can("create", "posts", { author: { name: "Alice" } })
+    })
+    const strictAbility = createDrizzleAbility<
+      UntypedSubjectMap,
+      AllowedAction
+    >(
+      (can) => {
+        can("create", "posts", { author: true })
+      },
+      { strict: { relations } }
+    )
+
+    expect(() =>
+      assertCanCreate(
+        relationAbility,
+        "posts",
+        { id: 1, content: "Hello" },
+        { relations }
+      )
+    ).toThrow(`uses a relation condition on "author"`)
+    expect(() =>
+      assertCanCreate(strictAbility, "posts", { id: 1, content: "Hello" })
+    ).toThrow(
+      expect.objectContaining({ code: "UNSUPPORTED_IN_MEMORY", operator: "eq" })
+    )
+  })
+
+  it("should check object values of json columns", () => {
+    const jsonAbility = createDrizzleAbility<UntypedSubjectMap, AllowedAction>(
+      (can) => {
+        can("create", "documents", { metadata: { theme: "dark" } })
+      }
+    )
+
+    expect(() =>
+      assertCanCreate(
+        jsonAbility,
+        "documents",
+        { id: 1, metadata: { theme: "dark" } },
+        { relations }
+      )
+    ).not.toThrow()
+    expect(() =>
+      assertCanCreate(jsonAbility, "documents", {
+        id: 1,
+        metadata: { theme: "light" },
+      })
+    ).toThrow(ForbiddenError)
+  })
+
+  it("should report failed fields with the null semantics of the ability", () => {
+    const sqlAbility = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can) => {
+        can("create", "posts", { authorId: { ne: currentUserId } })
+      },
+      { nullSemantics: "sql" }
+    )
+
+    expect(() =>
+      assertCanCreate(sqlAbility, "posts", { id: 1, authorId: null })
+    ).toThrow('"authorId" does not satisfy rule #0')
+  })
+
+  it("should not reject unchecked rules when an earlier rule decides", () => {
+    const mixedAbility = createDrizzleAbility<SubjectMap, AllowedAction>(
+      (can) => {
+        can("create", "posts", { RAW: sql`true` })
+        can("create", "posts", { authorId: currentUserId })
+      }
+    )
+
+    expect(() =>
+      assertCanCreate(mixedAbility, "posts", {
+        id: 1,
+        content: "Hello",
+        authorId: currentUserId,
+      })
+    ).not.toThrow()
+  })
+})
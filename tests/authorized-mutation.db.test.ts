@@ -0,0 +1,160 @@
+import { ForbiddenError } from "@casl/ability"
+import { eq, inArray } from "drizzle-orm"
+import { beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import type { QueryInput } from "../src"
+import {
+  authorizedDelete,
+  authorizedUpdate,
+  createDrizzleAbility,
+  NotFoundError,
+} from "../src"
+import { createDb, resetDb } from "./setup"
+import type { relations } from "./setup/schema"
+import { schema } from "./setup/schema"
+
+type AllowedAction = "update" | "delete" | "archive"
+
+interface SubjectMap {
+  posts: QueryInput<typeof relations, "posts">
+  articles: QueryInput<typeof relations, "posts">
+}
+
+const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+  can("update", "posts", { authorId: 1 })
+  can("delete", "posts", { authorId: 2 })
+  can("archive", "articles", { id: 3 })
+})
+
+describe("authorizedUpdate / authorizedDelete (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb()
+  })
+
+  beforeEach(async () => {
+    await resetDb(db)
+
+    await db.insert(schema.users).values([
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bob" },
+    ])
+
+    await db.insert(schema.posts).values([
+      { id: 1, content: "Alice post", authorId: 1 },
+      { id: 2, content: "Bob post", authorId: 2 },
+      { id: 3, content: "Another Bob post", authorId: 2 },
+    ])
+  })
+
+  const contentOf = async (id: number) => {
+    const [post] = await db
+      .select()
+      .from(schema.posts)
+      .where(eq(schema.posts.id, id))
+    return post?.content
+  }
+
+  it("should update and return permitted rows", async () => {
+    const rows = await authorizedUpdate(
+      db,
+      ability,
+      schema.posts,
+      eq(schema.posts.id, 1),
+      { content: "updated" }
+    )
+
+    expect(rows).toStrictEqual([{ id: 1, content: "updated", authorId: 1 }])
+  })
+
+  it("should only update the permitted subset of matching rows", async () => {
+    const rows = await authorizedUpdate(
+      db,
+      ability,
+      schema.posts,
+      inArray(schema.posts.id, [1, 2]),
+      { content: "updated" }
+    )
+
+    expect(rows.map((row) => row.id)).toStrictEqual([1])
+    await expect(contentOf(2)).resolves.toBe("Bob post")
+  })
+
+  it("should throw ForbiddenError when the row exists but is not permitted", async () => {
+    const update = authorizedUpdate(
+      db,
+      ability,
+      schema.posts,
+      eq(schema.posts.id, 2),
+      { content: "updated" }
+    )
+
+    await expect(update).rejects.toThrow(ForbiddenError)
+    await expect(update).rejects.toMatchObject({
+      action: "update",
+      subjectType: "posts",
+    })
+    await expect(contentOf(2)).resolves.toBe("Bob post")
+  })
+
+  it("should throw NotFoundError when no row matches", async () => {
+    const update = authorizedUpdate(
+      db,
+      ability,
+      schema.posts,
+      eq(schema.posts.id, 99),
+      { content: "updated" }
+    )
+
+    await expect(update).rejects.toThrow(NotFoundError)
+    await expect(update).rejects.toMatchObject({ subjectType: "posts" })
+  })
+
+  it("should delete and return permitted rows", async () => {
+    const rows = await authorizedDelete(
+      db,
+      ability,
+      schema.posts,
+      eq(schema.posts.id, 2)
+    )
+
+    expect(rows.map((row) => row.id)).toStrictEqual([2])
+    await expect(contentOf(2)).resolves.toBeUndefined()
+  })
+
+  it("should distinguish forbidden and missing rows on delete", async () => {
+    await expect(
+      authorizedDelete(db, ability, schema.posts, eq(schema.posts.id, 1))
+    ).rejects.toThrow(ForbiddenError)
+    await expect(
+      authorizedDelete(db, ability, schema.posts, eq(schema.posts.id, 99))
+    ).rejects.toThrow(NotFoundError)
+    await expect(contentOf(1)).resolves.toBe("Alice post")
+  })
+
+  it("should support custom actions and subjects", async () => {
+    const options = { action: "archive", subject: "articles" }
+
+    await expect(
+      authorizedUpdate(
+        db,
+        ability,
+        schema.posts,
+        eq(schema.posts.id, 3),
+        { content: "archived" },
+        options
+      )
+    ).resolves.toHaveLength(1)
+    await expect(
+      authorizedUpdate(
+        db,
+        ability,
+        schema.posts,
+        eq(schema.posts.id, 2),
+        { content: "archived" },
+        options
+      )
+    ).rejects.toMatchObject({ action: "archive", subjectType: "articles" })
+  })
+})
@@ -0,0 +1,155 @@
+import { subject } from "@casl/ability"
+import { describe, expect, it } from "vitest"
+
+import type { JsonSchema } from "../src"
+import { conditionsJsonSchema, createDrizzleAbility } from "../src"
+import { relations } from "./setup/schema"
+
+const operatorsOf = (schema: JsonSchema | undefined) => {
+  const operators = schema?.anyOf?.at(-1) ?? schema
+  return Object.keys(operators?.properties ?? {})
+}
+
+describe("Conditions JSON Schema", () => {
+  it("should define the subject and the tables of its relations", () => {
+    const schema = conditionsJsonSchema(relations, "posts")
+
+    expect(schema).toMatchObject({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $ref: "#/$defs/posts",
+    })
+    expect(
+      Object.keys(schema.$defs ?? {})
+        .filter((name) => !name.includes("."))
+        .toSorted()
+    ).toStrictEqual(["comments", "groups", "posts", "users"])
+    expect(schema.$defs?.posts).toMatchObject({
+      type: "object",
+      properties: {
+        id: { $ref: "#/$defs/posts.id" },
+        content: { $ref: "#/$defs/posts.content" },
+        authorId: { $ref: "#/$defs/posts.authorId" },
+        OR: { type: "array", items: { $ref: "#/$defs/posts" } },
+      },
+      additionalProperties: false,
+    })
+  })
+
+  it("should allow the operators of each data type", () => {
+    const { $defs: posts = {} } = conditionsJsonSchema(relations, "posts")
+    const { $defs: tables = {} } = conditionsJsonSchema(
+      relations,
+      "simpleTable"
+    )
+
+    expect(operatorsOf(posts["posts.content"])).toContain("like")
+    expect(operatorsOf(posts["posts.id"])).toContain("gt")
+    expect(operatorsOf(posts["posts.id"])).not.toContain("like")
+    expect(operatorsOf(tables["simpleTable.tags"])).toContain("arrayContains")
+    expect(operatorsOf(tables["simpleTable.tags"])).not.toContain("like")
+  })
+
+  it("should allow the operators of json and tsvector columns", () => {
+    const { $defs: documents = {} } = conditionsJsonSchema(
+      relations,
+      "documents"
+    )
+
+    expect(operatorsOf(documents["documents.metadata"])).toStrictEqual([
+      "json",
+      "isNull",
+      "isNotNull",
+      "isSet",
+      "$exists",
+      "not",
+      "$not",
+    ])
+    expect(operatorsOf(documents["documents.keywords"])).toContain("search")
+  })
+
+  it("should allow the operators accepted by validateAbility()", () => {
+    const { $defs = {} } = conditionsJsonSchema(relations, "posts")
+
+    expect(operatorsOf($defs["posts.content"])).toStrictEqual(
+      expect.arrayContaining([
+        "$eq",
+        "$ne",
+        "$in",
+        "$regex",
+        "$options",
+        "startsWith",
+        "not",
+      ])
+    )
+    expect(operatorsOf($defs["posts.id"])).not.toContain("$regex")
+    expect(Object.keys($defs.posts?.properties ?? {})).toStrictEqual(
+      expect.arrayContaining(["NOT", "AND", "OR", "$and", "$or", "$nor"])
+    )
+  })
+
+  it("should type the values of each column", () => {
+    const { $defs = {} } = conditionsJsonSchema(relations, "simpleTable")
+
+    expect($defs["simpleTable.id"]?.anyOf?.[0]).toStrictEqual({
+      type: "integer",
+    })
+    expect($defs["simpleTable.note"]?.anyOf?.[0]).toStrictEqual({
+      anyOf: [{ type: "string" }, { type: "null" }],
+    })
+    expect($defs["simpleTable.nums"]?.anyOf?.[0]).toStrictEqual({
+      type: "array",
+      items: { type: "integer" },
+    })
+  })
+
+  it("should quantify relations by their type", () => {
+    const { $defs = {} } = conditionsJsonSchema(relations, "posts")
+
+    expect($defs.posts?.properties?.author?.anyOf).toMatchObject([
+      {
+        properties: {
+          is: { $ref: "#/$defs/users" },
+          isNot: { $ref: "#/$defs/users" },
+        },
+      },
+      { $ref: "#/$defs/users" },
+    ])
+    expect(
+      Object.keys(
+        $defs.posts?.properties?.comments?.anyOf?.[0]?.properties ?? {}
+      )
+    ).toStrictEqual(["some", "every", "none", "$elemMatch", "semantics"])
+  })
+
+  it("should describe conditions the parser accepts", () => {
+    const ability = createDrizzleAbility<
+      { posts: Record<string, unknown> },
+      "read"
+    >((can) => {
+      can("read", "posts", {
+        content: { like: "%draft%", notIlike: "%secret%" },
+        authorId: { in: [1, 2] },
+        author: { is: { name: { like: "A%" } } },
+        comments: { every: { text: { ne: null } }, semantics: "vacuous" },
+      })
+    })
+
+    expect(
+      ability.can(
+        "read",
+        subject("posts", {
+          content: "a draft",
+          authorId: 1,
+          author: { name: "Alice" },
+          comments: [],
+        } as Record<string, unknown>)
+      )
+    ).toBeTruthy()
+  })
+
+  it("should reject unknown subjects", () => {
+    expect(() => conditionsJsonSchema(relations, "articles")).toThrow(
+      'Unknown subject "articles"'
+    )
+  })
+})
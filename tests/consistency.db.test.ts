@@ -0,0 +1,291 @@
+import { sql } from "drizzle-orm"
+import { beforeAll, beforeEach, describe, expect, it } from "vitest"
+
+import { createDrizzleAbility, raw, verifyConsistency } from "../src"
+import { createDb, resetDb } from "./setup"
+import { schema } from "./setup/schema"
+
+// Generated conditions are not part of the RQB v2 types
+interface SubjectMap {
+  simpleTable: Record<string, unknown>
+  posts: Record<string, unknown>
+}
+
+type Condition = Record<string, unknown>
+
+/**
+ * Small seeded PRNG (Park-Miller), so that failing cases can be reproduced by seed.
+ */
+function createRandom(seed: number) {
+  let state = seed
+  const float = () => {
+    state = (state * 48_271) % 2_147_483_647
+    return (state - 1) / 2_147_483_646
+  }
+  const int = (min: number, max: number) =>
+    min + Math.floor(float() * (max - min + 1))
+  const pick = <T>(values: readonly T[]): T =>
+    values[int(0, values.length - 1)] as T
+  const subset = <T>(values: readonly T[]): T[] =>
+    values.filter(() => float() < 0.4)
+  // Drizzle's array operators require at least one value
+  const nonEmptySubset = <T>(values: readonly T[]): T[] => {
+    const result = subset(values)
+    return result.length > 0 ? result : [pick(values)]
+  }
+  const maybeNull = <T>(value: T): T | null => (float() < 0.3 ? null : value)
+
+  return { float, int, pick, subset, nonEmptySubset, maybeNull }
+}
+
+type Random = ReturnType<typeof createRandom>
+
+const WORDS = ["alpha", "Beta", "gamma", "Delta", "beta"] as const
+const TAGS = ["red", "green", "blue"] as const
+const NUMS = [1, 2, 3, 4, 5] as const
+const ROW_COUNT = 10
+
+function stringCondition(random: Random, field: string): Condition {
+  const word = random.pick(WORDS)
+  const pattern = random.pick([`${word.slice(0, 2)}%`, `%${word.slice(-2)}`])
+
+  switch (random.int(0, 8)) {
+    case 0: {
+      return { [field]: word }
+    }
+    case 1: {
+      return { [field]: { ne: word } }
+    }
+    case 2: {
+      return { [field]: { in: random.subset(WORDS) } }
+    }
+    case 3: {
+      return { [field]: { notIn: [word, random.pick(WORDS)] } }
+    }
+    case 4: {
+      return { [field]: { [random.pick(["like", "notLike"])]: pattern } }
+    }
+    case 5: {
+      return { [field]: { [random.pick(["ilike", "notIlike"])]: pattern } }
+    }
+    case 6: {
+      return { [field]: { [random.pick(["gt", "gte", "lt", "lte"])]: word } }
+    }
+    case 7: {
+      return { [field]: { isNull: true } }
+    }
+    default: {
+      return { [field]: { isNotNull: true } }
+    }
+  }
+}
+
+function columnCondition(random: Random): Condition {
+  switch (random.int(0, 4)) {
+    case 0: {
+      const operator = random.pick(["eq", "ne", "gt", "gte", "lt", "lte"])
+      return { id: { [operator]: random.int(1, ROW_COUNT) } }
+    }
+    case 1: {
+      const operator = random.pick(["in", "notIn"])
+      return {
+        id: { [operator]: [random.int(1, ROW_COUNT), random.int(1, 3)] },
+      }
+    }
+    case 2: {
+      const field = random.pick(["tags", "nums"])
+      const operator = random.pick([
+        "arrayOverlaps",
+        "arrayContains",
+        "arrayContained",
+      ])
+      const values: readonly (string | number)[] =
+        field === "tags" ? TAGS : NUMS
+      return { [field]: { [operator]: random.nonEmptySubset(values) } }
+    }
+    default: {
+      return stringCondition(random, random.pick(["name", "note"]))
+    }
+  }
+}
+
+function commentCondition(random: Random): Condition {
+  switch (random.int(0, 2)) {
+    case 0: {
+      return stringCondition(random, "text")
+    }
+    case 1: {
+      return { authorId: random.int(1, 3) }
+    }
+    default: {
+      const operator = random.pick(["ne", "in", "notIn", "gt"])
+      const value = random.int(1, 3)
+      return {
+        authorId: { [operator]: operator.endsWith("n") ? [value] : value },
+      }
+    }
+  }
+}
+
+function postCondition(random: Random): Condition {
+  if (random.float() < 0.3) {
+    return stringCondition(random, "content")
+  }
+
+  const quantifier = random.pick(["some", "every", "none"])
+  return { comments: { [quantifier]: compound(random, commentCondition) } }
+}
+
+function compound(
+  random: Random,
+  leaf: (random: Random) => Condition
+): Condition {
+  switch (random.int(0, 4)) {
+    case 0: {
+      return { NOT: leaf(random) }
+    }
+    case 1: {
+      return { OR: [leaf(random), leaf(random)] }
+    }
+    case 2: {
+      return { AND: [leaf(random), { NOT: leaf(random) }] }
+    }
+    default: {
+      return leaf(random)
+    }
+  }
+}
+
+function seedRows(random: Random) {
+  const ids = Array.from({ length: ROW_COUNT }, (_, index) => index + 1)
+
+  return {
+    simpleTable: ids.map((id) => ({
+      id,
+      name: random.pick(WORDS),
+      note: random.maybeNull(random.pick(WORDS)),
+      tags: random.subset(TAGS),
+      nums: random.subset(NUMS),
+    })),
+    users: [1, 2, 3].map((id) => ({ id, name: `User ${id}` })),
+    posts: ids.map((id) => ({
+      id,
+      content: random.pick(WORDS),
+      authorId: random.maybeNull(random.int(1, 3)),
+    })),
+    // Some posts end up without comments
+    comments: ids.flatMap((postId) =>
+      Array.from({ length: random.int(0, 3) }, (_, index) => ({
+        id: postId * 10 + index,
+        text: random.maybeNull(random.pick(WORDS)),
+        authorId: random.maybeNull(random.int(1, 3)),
+        postId,
+      }))
+    ),
+  }
+}
+
+describe("verifyConsistency (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb()
+  })
+
+  beforeEach(async () => {
+    await resetDb(db)
+  })
+
+  const insertRows = async (rows: ReturnType<typeof seedRows>) => {
+    await db.insert(schema.simpleTable).values(rows.simpleTable)
+    await db.insert(schema.users).values(rows.users)
+    await db.insert(schema.posts).values(rows.posts)
+    if (rows.comments.length > 0) {
+      await db.insert(schema.comments).values(rows.comments)
+    }
+  }
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])(
+    "should agree with the database for generated rules (seed %i)",
+    async (seed) => {
+      const random = createRandom(seed)
+      await insertRows(seedRows(random))
+
+      const ability = createDrizzleAbility<SubjectMap, "read">(
+        (can) => {
+          for (let index = 0; index < 25; index += 1) {
+            can("read", "simpleTable", compound(random, columnCondition))
+            can("read", "posts", postCondition(random))
+          }
+        },
+        { nullSemantics: "sql" }
+      )
+
+      const report = await verifyConsistency(ability, db, [
+        "simpleTable",
+        "posts",
+      ])
+
+      expect(report.mismatches).toStrictEqual([])
+      expect(report.consistent).toBeTruthy()
+      expect(report.checkedRules).toBe(50)
+      expect(report.checkedRecords).toBe(50 * ROW_COUNT)
+    }
+  )
+
+  it("should report the records on which both disagree, per operator", async () => {
+    await insertRows(seedRows(createRandom(1)))
+    await db
+      .update(schema.simpleTable)
+      .set({ note: null })
+      .where(sql`${schema.simpleTable.id} = 1`)
+
+    // JavaScript null semantics by default
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { id: { lte: 3 } })
+      can("read", "simpleTable", { note: { ne: "alpha" } })
+    })
+
+    const report = await verifyConsistency(ability, db, ["simpleTable"])
+
+    expect(report.consistent).toBeFalsy()
+    expect(Object.keys(report.byOperator)).toStrictEqual(["notEquals"])
+    expect(report.mismatches).toContainEqual(
+      expect.objectContaining({
+        subjectType: "simpleTable",
+        action: "read",
+        ruleIndex: 1,
+        conditions: { note: { ne: "alpha" } },
+        record: expect.objectContaining({ id: 1, note: null }),
+        inMemory: true,
+        inDatabase: false,
+      })
+    )
+  })
+
+  it("should report RAW conditions without predicate", async () => {
+    await insertRows(seedRows(createRandom(2)))
+
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "posts", { comments: { some: raw(sql`false`) } })
+    })
+
+    const report = await verifyConsistency(ability, db, ["posts"])
+
+    expect(report.byOperator.RAW?.length).toBeGreaterThan(0)
+    expect(report.byOperator.some).toStrictEqual(report.byOperator.RAW)
+    expect(
+      report.mismatches.every((mismatch) => mismatch.inMemory)
+    ).toBeTruthy()
+  })
+
+  it("should throw for subjects which are not tables", async () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "posts", { authorId: 1 })
+    })
+
+    await expect(verifyConsistency(ability, db, ["articles"])).rejects.toThrow(
+      `Cannot verify "articles" because it is not a table of the relations config`
+    )
+  })
+})
@@ -0,0 +1,189 @@
+import { subject } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { DrizzleAbilityOptions, QueryInput } from "../src"
+import {
+  accessibleBy,
+  accessibleSQL,
+  createDrizzleAbility,
+  every,
+  ParsingQueryError,
+} from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+interface SubjectMap {
+  users: QueryInput<typeof relations, "users">
+}
+
+// Loaded relations and relation quantifiers are not part of the RQB v2 types
+interface UntypedSubjectMap {
+  users: Record<string, unknown>
+}
+
+const sortedIds = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+const allOf = (ids: number[]) => ({
+  inMemory: ids,
+  accessibleBy: ids,
+  accessibleSQL: ids,
+})
+
+describe("every() semantics (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.users).values([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+        { id: 3, name: "Charlie" },
+      ])
+      // Alice: all posts done, Bob: one draft, Charlie: no posts
+      await dbClient.insert(schema.posts).values([
+        { id: 1, content: "done", authorId: 1 },
+        { id: 2, content: "done", authorId: 1 },
+        { id: 3, content: "done", authorId: 2 },
+        { id: 4, content: "draft", authorId: 2 },
+      ])
+    })
+  })
+
+  /**
+   * Returns the ids of the users permitted by the ability,
+   * checked in memory, with `accessibleBy()` and with `accessibleSQL()`.
+   */
+  const permittedUsers = async (ability: ReturnType<typeof abilityFor>) => {
+    const rows = await db.query.users.findMany({ with: { posts: true } })
+    const filtered = await db.query.users.findMany({
+      where: accessibleBy(ability, "archive").users,
+    })
+    const selected = await db
+      .select()
+      .from(schema.users)
+      .where(accessibleSQL(ability, "archive", schema.users, relations))
+
+    return {
+      inMemory: sortedIds(
+        rows.filter((row) =>
+          ability.can(
+            "archive",
+            subject("users", row as Record<string, unknown>)
+          )
+        )
+      ),
+      accessibleBy: sortedIds(filtered),
+      accessibleSQL: sortedIds(selected),
+    }
+  }
+
+  const abilityFor = (
+    conditions: UntypedSubjectMap["users"],
+    options?: DrizzleAbilityOptions
+  ) =>
+    createDrizzleAbility<UntypedSubjectMap, "archive">((can) => {
+      can("archive", "users", conditions)
+    }, options)
+
+  it("should require related records by default", async () => {
+    const ability = abilityFor({ posts: every({ content: "done" }) })
+
+    await expect(permittedUsers(ability)).resolves.toStrictEqual(allOf([1]))
+  })
+
+  it("should match records without related records with vacuous semantics", async () => {
+    const ability = abilityFor(
+      { posts: every({ content: "done" }) },
+      { everySemantics: "vacuous" }
+    )
+
+    await expect(permittedUsers(ability)).resolves.toStrictEqual(allOf([1, 3]))
+  })
+
+  it("should let a condition override the semantics of the ability", async () => {
+    await expect(
+      permittedUsers(
+        abilityFor({
+          posts: every({ content: "done" }, { semantics: "vacuous" }),
+        })
+      )
+    ).resolves.toStrictEqual(allOf([1, 3]))
+
+    await expect(
+      permittedUsers(
+        abilityFor(
+          { posts: every({ content: "done" }, { semantics: "strict" }) },
+          { everySemantics: "vacuous" }
+        )
+      )
+    ).resolves.toStrictEqual(allOf([1]))
+  })
+
+  it("should support the semantics in object syntax", async () => {
+    const ability = abilityFor({
+      posts: { every: { content: "done" }, semantics: "vacuous" },
+    })
+
+    await expect(permittedUsers(ability)).resolves.toStrictEqual(allOf([1, 3]))
+  })
+
+  it("should support vacuous semantics in inverted rules", async () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "archive">(
+      (can, cannot) => {
+        can("archive", "users")
+        cannot("archive", "users", {
+          posts: every({ content: "draft" }, { semantics: "vacuous" }),
+        })
+      }
+    )
+
+    // Charlie has no posts, so all (zero) of his posts are drafts
+    await expect(permittedUsers(ability)).resolves.toStrictEqual(allOf([1, 2]))
+  })
+
+  it("should keep SQL null semantics for vacuous every", async () => {
+    const ability = abilityFor(
+      { posts: every({ content: { ne: "draft" } }) },
+      { everySemantics: "vacuous", nullSemantics: "sql" }
+    )
+
+    await expect(permittedUsers(ability)).resolves.toStrictEqual(allOf([1, 3]))
+  })
+
+  it("should type the semantics option for typed conditions", () => {
+    const ability = createDrizzleAbility<SubjectMap, "archive">((can) => {
+      can("archive", "users", {
+        posts: every<typeof relations, "posts">(
+          { content: "done" },
+          { semantics: "vacuous" }
+        ),
+      })
+    })
+
+    expect(ability.rules[0]?.conditions).toStrictEqual({
+      posts: { every: { content: "done" }, semantics: "vacuous" },
+    })
+
+    // @ts-expect-error - "always" is not a semantics of every()
+    every({ content: "done" }, { semantics: "always" })
+  })
+
+  it("should reject invalid semantics", () => {
+    const invalid = abilityFor({
+      posts: { every: { content: "done" }, semantics: "always" },
+    })
+    const withoutEvery = abilityFor({
+      posts: { some: { content: "done" }, semantics: "vacuous" },
+    })
+    const user = subject("users", { id: 3, posts: [] } as Record<
+      string,
+      unknown
+    >)
+
+    expect(() => invalid.can("archive", user)).toThrow(ParsingQueryError)
+    expect(() => withoutEvery.can("archive", user)).toThrow(
+      `"semantics" can only be used together with "every"`
+    )
+  })
+})
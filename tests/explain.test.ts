@@ -0,0 +1,150 @@
+import { AbilityBuilder } from "@casl/ability"
+import { describe, expect, it } from "vitest"
+
+import type { DefineDrizzleAbility } from "../src"
+import { createDrizzleAbilityFor, explain } from "../src"
+
+type AllowedAction = "read" | "update"
+
+// Relation quantifiers are not part of the RQB v2 types
+interface SubjectMap {
+  posts: Record<string, unknown>
+}
+
+type AppAbility = DefineDrizzleAbility<SubjectMap, AllowedAction>
+
+const { can, cannot, build } = new AbilityBuilder<AppAbility>(
+  createDrizzleAbilityFor<SubjectMap, AllowedAction>()
+)
+can("read", "posts")
+can("update", "posts", { authorId: 7 })
+can("update", "posts", {
+  OR: [{ content: { like: "Draft%" } }, { comments: { some: { id: 1 } } }],
+})
+cannot("update", "posts", { archived: true }).because(
+  "Archived posts are read-only"
+)
+const ability = build()
+
+const post = {
+  id: 42,
+  authorId: 8,
+  archived: false,
+  content: "Draft: release notes",
+  comments: [{ id: 2 }],
+}
+
+describe("Explaining permissions", () => {
+  it("should list the relevant rules in priority order", () => {
+    const explanation = explain(ability, "update", "posts", post)
+
+    expect(explanation.rules.map((rule) => rule.ruleIndex)).toStrictEqual([
+      3, 2, 1,
+    ])
+    expect(explanation.rules[0]).toMatchObject({
+      inverted: true,
+      reason: "Archived posts are read-only",
+      conditions: { archived: true },
+      condition: { operator: "eq", field: "archived", value: true },
+      matched: false,
+    })
+    expect(explanation).toMatchObject({
+      allowed: true,
+      winner: { ruleIndex: 2 },
+    })
+  })
+
+  it("should trace the evaluation of each condition", () => {
+    const [, compound, authorRule] = explain(
+      ability,
+      "update",
+      "posts",
+      post
+    ).rules
+
+    expect(authorRule?.trace).toStrictEqual({
+      operator: "eq",
+      field: "authorId",
+      value: 7,
+      actual: 8,
+      passed: false,
+    })
+    expect(compound?.trace).toMatchObject({
+      operator: "OR",
+      passed: true,
+      children: [
+        { operator: "like", field: "content", passed: true },
+        {
+          operator: "some",
+          field: "comments",
+          passed: false,
+          related: [{ field: "id", value: 1, actual: 2, passed: false }],
+        },
+      ],
+    })
+  })
+
+  it("should name inverted rules which deny the record", () => {
+    const explanation = explain(ability, "update", "posts", {
+      ...post,
+      archived: true,
+    })
+
+    expect(explanation).toMatchObject({
+      allowed: false,
+      winner: { ruleIndex: 3, reason: "Archived posts are read-only" },
+    })
+  })
+
+  it("should explain the subject type without a record", () => {
+    expect(explain(ability, "read", "posts")).toMatchObject({
+      allowed: true,
+      winner: { ruleIndex: 0, inverted: false, matched: true },
+    })
+    expect(explain(ability, "update", "comments")).toMatchObject({
+      allowed: false,
+      rules: [],
+      text: '"update" on "comments" is denied, no rule applies',
+    })
+  })
+
+  it("should name the action and subject of the rule", () => {
+    const DrizzleAbility = createDrizzleAbilityFor()
+    const admin = new DrizzleAbility([
+      { action: "manage", subject: "all" },
+      { action: ["read", "update"], subject: ["posts"], inverted: true },
+    ])
+    const explanation = explain(admin, "update", "posts")
+
+    expect(explanation.rules).toMatchObject([
+      { ruleIndex: 1, action: "read, update", subject: "posts" },
+      { ruleIndex: 0, action: "manage", subject: "all" },
+    ])
+    expect(explanation.text.split("\n")).toStrictEqual([
+      '"update" on "posts" is denied by rule #1',
+      '#1 cannot "read, update" on "posts": matched',
+      '#0 can "manage" on "all": matched',
+    ])
+  })
+
+  it("should describe the explanation as text", () => {
+    const { text } = explain(ability, "update", "posts", {
+      ...post,
+      content: "Final",
+    })
+
+    expect(text.split("\n")).toStrictEqual([
+      '"update" on "posts" is denied, no rule applies',
+      '#3 cannot "update" on "posts" {"archived":true} because "Archived posts are read-only": not matched',
+      "  fail archived eq true, actual false",
+      '#2 can "update" on "posts" {"OR":[{"content":{"like":"Draft%"}},{"comments":{"some":{"id":1}}}]}: not matched',
+      "  fail OR",
+      '    fail content like "Draft%", actual "Final"',
+      "    fail comments some (1 related)",
+      "      [0]",
+      "        fail id eq 1, actual 2",
+      '#1 can "update" on "posts" {"authorId":7}: not matched',
+      "  fail authorId eq 7, actual 8",
+    ])
+  })
+})
@@ -0,0 +1,224 @@
+import { subject } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { DrizzleAbilityOptions, QueryInput } from "../src"
+import {
+  accessibleBy,
+  accessibleSQL,
+  createDrizzleAbility,
+  ParsingQueryError,
+} from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+type DocumentQuery = QueryInput<typeof relations, "documents">
+
+interface SubjectMap {
+  documents: DocumentQuery
+}
+
+// Invalid queries and JSON path conditions within NOT / OR / AND are not part of the types
+interface UntypedSubjectMap {
+  documents: Record<string, unknown>
+}
+
+const sortedIds = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+const allOf = (ids: number[]) => ({
+  inMemory: ids,
+  sqlLogic: ids,
+  accessibleBy: ids,
+  accessibleSQL: ids,
+})
+
+describe("JSON path conditions (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.documents).values([
+        {
+          id: 1,
+          metadata: {
+            visibility: "public",
+            level: 3,
+            tags: ["x", "y"],
+            owner: { id: 1, name: "Alice" },
+          },
+          settings: { theme: "dark" },
+        },
+        {
+          id: 2,
+          metadata: {
+            visibility: "private",
+            level: "high",
+            tags: ["y"],
+            owner: { id: 2 },
+          },
+          settings: { theme: "light" },
+        },
+        {
+          id: 3,
+          metadata: { visibility: "public", level: null, tags: [] },
+          settings: null,
+        },
+        { id: 4, metadata: null, settings: { theme: "dark" } },
+        { id: 5, metadata: ["x", "z"], settings: {} },
+      ])
+    })
+  })
+
+  /**
+   * Returns the ids of the permitted documents, checked in memory (with JavaScript
+   * and SQL null semantics), with `accessibleBy()` and with `accessibleSQL()`.
+   */
+  const permittedIds = async (conditions: object) => {
+    const abilityWith = (options?: DrizzleAbilityOptions) =>
+      createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+        can("read", "documents", conditions as Record<string, unknown>)
+      }, options)
+    const ability = abilityWith()
+    const sqlAbility = abilityWith({ nullSemantics: "sql" })
+
+    const rows = await db.query.documents.findMany()
+    const filtered = await db.query.documents.findMany({
+      where: accessibleBy(ability, "read").documents,
+    })
+    const selected = await db
+      .select({ id: schema.documents.id })
+      .from(schema.documents)
+      .where(accessibleSQL(ability, "read", schema.documents, relations))
+    const permitted = (checked: typeof ability) =>
+      sortedIds(
+        rows.filter((row) =>
+          checked.can(
+            "read",
+            subject("documents", row as Record<string, unknown>)
+          )
+        )
+      )
+
+    return {
+      inMemory: permitted(ability),
+      sqlLogic: permitted(sqlAbility),
+      accessibleBy: sortedIds(filtered),
+      accessibleSQL: sortedIds(selected),
+    }
+  }
+
+  const cases: [string, DocumentQuery, number[]][] = [
+    [
+      "eq",
+      { metadata: { json: { path: "visibility", eq: "public" } } },
+      [1, 3],
+    ],
+    [
+      "eq nested",
+      { metadata: { json: { path: ["owner", "id"], eq: 1 } } },
+      [1],
+    ],
+    [
+      "eq object",
+      { metadata: { json: { path: "owner", eq: { id: 2 } } } },
+      [2],
+    ],
+    ["ne", { metadata: { json: { path: "visibility", ne: "public" } } }, [2]],
+    ["gt", { metadata: { json: { path: "level", gt: 2 } } }, [1]],
+    // Strings and null are less than numbers in jsonb
+    ["lt", { metadata: { json: { path: "level", lt: 5 } } }, [1, 2, 3]],
+    [
+      "gte and lte",
+      { metadata: { json: { path: "level", gte: 3, lte: 3 } } },
+      [1],
+    ],
+    [
+      "contains",
+      { metadata: { json: { contains: { visibility: "public" } } } },
+      [1, 3],
+    ],
+    [
+      "contains at path",
+      { metadata: { json: { path: "tags", contains: ["x"] } } },
+      [1],
+    ],
+    ["contains scalar", { metadata: { json: { contains: "x" } } }, [5]],
+    ["hasKey", { metadata: { json: { hasKey: "owner" } } }, [1, 2]],
+    [
+      "hasKey in array",
+      { metadata: { json: { path: "tags", hasKey: "y" } } },
+      [1, 2],
+    ],
+    ["array index", { metadata: { json: { path: "tags.0", eq: "x" } } }, [1]],
+    [
+      "negative array index",
+      { metadata: { json: { path: "tags.-1", eq: "y" } } },
+      [1, 2],
+    ],
+    [
+      "json column",
+      { settings: { json: { path: "theme", eq: "dark" } } },
+      [1, 4],
+    ],
+    [
+      "with other operators",
+      {
+        metadata: { json: { hasKey: "visibility" }, isNotNull: true },
+        id: { gt: 1 },
+      },
+      [2, 3],
+    ],
+  ]
+
+  it.each(cases)("should support %s", async (_, conditions, expected) => {
+    await expect(permittedIds(conditions)).resolves.toStrictEqual(
+      allOf(expected)
+    )
+  })
+
+  it("should treat missing paths as unknown with SQL null semantics", async () => {
+    const ids = await permittedIds({
+      NOT: { metadata: { json: { path: "visibility", eq: "public" } } },
+    })
+
+    // The path is missing in documents 4 and 5
+    expect(ids.inMemory).toStrictEqual([2, 4, 5])
+    expect(ids).toMatchObject({
+      sqlLogic: [2],
+      accessibleBy: [2],
+      accessibleSQL: [2],
+    })
+  })
+
+  it("should type JSON path conditions for json columns only", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "documents", { settings: { json: { hasKey: "theme" } } })
+      // @ts-expect-error - id is not a json column
+      can("read", "documents", { id: { json: { eq: 1 } } })
+    })
+
+    expect(ability.rules).toHaveLength(2)
+  })
+
+  it.each([
+    [{ path: "level" }, `"json" expects at least one of eq, ne, gt`],
+    [{ path: 1, eq: 1 }, `"path" expects to receive`],
+    [{ eq: 1, matches: "x" }, `Unknown operator "matches" in "json"`],
+    [{ gt: { level: 1 } }, `"gt" expects to receive string or number`],
+    [{ hasKey: 1 }, `"hasKey" expects to receive string`],
+  ])("should reject the invalid query %j", (query, message) => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+      can("read", "documents", { metadata: { json: query } })
+    })
+
+    expect(() =>
+      ability.can(
+        "read",
+        subject("documents", { id: 1, metadata: {} } as Record<string, unknown>)
+      )
+    ).toThrow(message)
+    expect(() => accessibleBy(ability, "read").documents).toThrow(
+      ParsingQueryError
+    )
+  })
+})
@@ -0,0 +1,331 @@
+import { subject } from "@casl/ability"
+import { describe, expect, it } from "vitest"
+
+import { createDrizzleAbilityFor } from "../src"
+import type { LoadPolicyOptions } from "../src/policy"
+import { loadPolicy, PolicyError } from "../src/policy"
+import { relations } from "./setup/schema"
+
+const options: LoadPolicyOptions = {
+  fileName: "policy.yaml",
+  relations,
+  actions: ["read", "update", "delete", "manage"],
+  variables: { user: "users" },
+}
+
+const yamlPolicy = `
+# Roles map subjects to actions
+admin:
+  all:
+    manage: true
+
+editor:
+  posts:
+    read: true
+    update: { authorId: "\${user.id}" }
+    delete:
+      - authorId: \${user.id}
+        content: { like: "Draft%" }
+      - comments: { none: {} }
+  users:
+    read:
+      name: { ne: "\${user.name} (banned)" }
+`
+
+const throwsPolicyError = (load: () => unknown) => {
+  try {
+    load()
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyError)
+    return error as PolicyError
+  }
+  throw new Error("Expected a PolicyError")
+}
+
+describe("Policy files", () => {
+  it("should load the rules of a role from YAML", () => {
+    const policy = loadPolicy(yamlPolicy, options)
+
+    expect(policy.roles).toStrictEqual(["admin", "editor"])
+    expect(
+      policy.rulesFor("editor", { user: { id: 7, name: "Jo" } })
+    ).toStrictEqual([
+      { action: "read", subject: "posts" },
+      { action: "update", subject: "posts", conditions: { authorId: 7 } },
+      {
+        action: "delete",
+        subject: "posts",
+        conditions: { authorId: 7, content: { like: "Draft%" } },
+      },
+      {
+        action: "delete",
+        subject: "posts",
+        conditions: { comments: { none: {} } },
+      },
+      {
+        action: "read",
+        subject: "users",
+        conditions: { name: { ne: "Jo (banned)" } },
+      },
+    ])
+  })
+
+  it("should load the same policy from JSON", () => {
+    const jsonPolicy = JSON.stringify({
+      editor: {
+        posts: {
+          read: true,
+          update: { authorId: `\${user.id}` },
+        },
+      },
+    })
+    const policy = loadPolicy(jsonPolicy, {
+      ...options,
+      fileName: "policy.json",
+    })
+
+    expect(policy.rulesFor(["editor"], { user: { id: 7 } })).toStrictEqual([
+      { action: "read", subject: "posts" },
+      { action: "update", subject: "posts", conditions: { authorId: 7 } },
+    ])
+  })
+
+  it("should load inverted rules with fields and reasons", () => {
+    const policy = loadPolicy(
+      [
+        "editor:",
+        "  posts:",
+        "    read: { fields: [id, content] }",
+        "    update:",
+        "      - inverted: true",
+        "        reason: Only drafts can be edited",
+        "        conditions: { content: { notLike: 'Draft%' } }",
+        `      - { fields: content, conditions: { authorId: '\${user.id}' } }`,
+        "",
+      ].join("\n"),
+      options
+    )
+
+    expect(policy.rulesFor("editor", { user: { id: 7 } })).toStrictEqual([
+      { action: "read", subject: "posts", fields: ["id", "content"] },
+      {
+        action: "update",
+        subject: "posts",
+        inverted: true,
+        reason: "Only drafts can be edited",
+        conditions: { content: { notLike: "Draft%" } },
+      },
+      {
+        action: "update",
+        subject: "posts",
+        fields: ["content"],
+        conditions: { authorId: 7 },
+      },
+    ])
+  })
+
+  it("should create abilities from the rules", () => {
+    const policy = loadPolicy(yamlPolicy, options)
+    const DrizzleAbility = createDrizzleAbilityFor()
+    const ability = new DrizzleAbility(
+      policy.rulesFor("editor", { user: { id: 7, name: "Jo" } })
+    )
+    const admin = new DrizzleAbility(policy.rulesFor("admin"))
+
+    expect(
+      ability.can("update", subject("posts", { authorId: 7 }))
+    ).toBeTruthy()
+    expect(ability.can("update", subject("posts", { authorId: 8 }))).toBeFalsy()
+    expect(admin.can("delete", subject("users", { id: 1 }))).toBeTruthy()
+  })
+
+  it.each([
+    [
+      "unknown subjects",
+      "editor:\n  articles:\n    read: true\n",
+      'policy.yaml:2:3: Unknown subject "articles"',
+    ],
+    [
+      "unknown actions",
+      "editor:\n  posts:\n    publish: true\n",
+      'policy.yaml:3:5: Unknown action "publish"',
+    ],
+    [
+      "unknown fields",
+      "editor:\n  posts:\n    read:\n      ownerId: 1\n",
+      'policy.yaml:4:7: Unknown field "ownerId", "posts" has no such column or relation',
+    ],
+    [
+      "unknown fields of relations",
+      "editor:\n  posts:\n    read: { author: { is: { email: x } } }\n",
+      'policy.yaml:3:29: Unknown field "email", "users" has no such column or relation',
+    ],
+    [
+      "conditions beside rule keys",
+      "editor:\n  posts:\n    read: { inverted: true, authorId: 1 }\n",
+      'policy.yaml:3:29: Unexpected key "authorId" in a rule, conditions must be nested in "conditions"',
+    ],
+    [
+      "unknown fields of rules",
+      "editor:\n  posts:\n    read: { fields: [id, title] }\n",
+      'policy.yaml:3:26: Unknown field "title", "posts" has no such column',
+    ],
+    [
+      "variables which aren't columns of their subject",
+      `editor:\n  posts:\n    read: { authorId: "\${user.email}" }\n`,
+      'policy.yaml:3:13: Unknown variable "user.email", "users" has no such column "email"',
+    ],
+    [
+      "variables which refer to records",
+      `editor:\n  posts:\n    read: { authorId: "\${user}" }\n`,
+      'policy.yaml:3:13: Variable "user" must refer to a column of "users"',
+    ],
+    [
+      "undeclared variables",
+      `editor:\n  posts:\n    read:\n      - authorId: "\${team.id}"\n`,
+      'policy.yaml:4:9: Unknown variable "team.id"',
+    ],
+    [
+      "RAW conditions",
+      "editor:\n  posts:\n    read: { RAW: x }\n",
+      "policy.yaml:3:13: RAW conditions can't be defined in a policy file",
+    ],
+    [
+      "invalid action values",
+      "editor:\n  posts:\n    read: false\n",
+      "policy.yaml:3:5: Expected true, a mapping of conditions or a list of them",
+    ],
+    [
+      "unknown tags",
+      "editor:\n  posts: !role {}\n",
+      "policy.yaml:2:10: Unresolved tag: !role",
+    ],
+    [
+      "bad indentation",
+      "editor:\n  posts:\n    read: true\n   update: true\n",
+      "policy.yaml:4:1: All mapping items must start at the same column",
+    ],
+    [
+      "duplicate keys",
+      "editor:\n  posts: {}\n  posts: {}\n",
+      "policy.yaml:3:3: Map keys must be unique",
+    ],
+  ])("should report %s with their position", (_, source, message) => {
+    const error = throwsPolicyError(() => loadPolicy(source, options))
+
+    expect(error.message).toContain(message)
+    expect(error.fileName).toBe("policy.yaml")
+  })
+
+  it("should resolve YAML 1.2 scalars, anchors and block scalars", () => {
+    const policy = loadPolicy(
+      [
+        "editor:",
+        "  posts: &posts",
+        "    read:",
+        "      id: { in: [01, +2, 0o17] }",
+        "      content: |",
+        "        Draft",
+        "viewer:",
+        "  posts: *posts",
+        "",
+      ].join("\n"),
+      options
+    )
+    const conditions = { id: { in: [1, 2, 15] }, content: "Draft\n" }
+
+    expect(policy.rulesFor("editor")).toStrictEqual([
+      { action: "read", subject: "posts", conditions },
+    ])
+    expect(policy.rulesFor("viewer")).toStrictEqual(policy.rulesFor("editor"))
+  })
+
+  it("should report JSON errors with their position", () => {
+    const error = throwsPolicyError(() =>
+      loadPolicy('{\n  "editor": {\n    "posts": { "read": tru }\n  }\n}', {
+        ...options,
+        fileName: "policy.json",
+      })
+    )
+
+    expect(error).toMatchObject({
+      fileName: "policy.json",
+      line: 3,
+      column: 24,
+    })
+  })
+
+  it("should report missing variables and invalid conditions at the rule", () => {
+    const policy = loadPolicy(
+      `editor:\n  posts:\n    update: { authorId: '\${user.id}' }\n    read: { id: { in: '\${user.id}' } }\n`,
+      options
+    )
+
+    expect(() => policy.rulesFor("editor", { user: {} })).toThrow(
+      'policy.yaml:3:15: Missing variable "user.id"'
+    )
+    expect(() => policy.rulesFor("editor", { user: { id: 1 } })).toThrow(
+      /^policy\.yaml:4:5: "in" expects to receive an array/u
+    )
+    expect(() => policy.rulesFor("viewer")).toThrow('Unknown role "viewer"')
+  })
+
+  it("should only replace whole placeholders by scalars or arrays of scalars", () => {
+    const policy = loadPolicy(
+      `editor:\n  posts:\n    read: { authorId: '\${user.id}', content: 'by \${user.name}' }\n`,
+      options
+    )
+
+    expect(() =>
+      policy.rulesFor("editor", { user: { id: { ne: 0 }, name: "Jo" } })
+    ).toThrow(
+      'policy.yaml:3:13: Variable "user.id" must be a scalar or an array of scalars'
+    )
+    expect(() =>
+      policy.rulesFor("editor", { user: { id: 1, name: ["Jo"] } })
+    ).toThrow(
+      'policy.yaml:3:37: Variable "user.name" must be a scalar within a string'
+    )
+    expect(
+      policy.rulesFor("editor", { user: { id: [1, 2], name: "Jo" } })
+    ).toStrictEqual([
+      {
+        action: "read",
+        subject: "posts",
+        conditions: { authorId: [1, 2], content: "by Jo" },
+      },
+    ])
+  })
+
+  it("should allow placeholders starting with a listed variable", () => {
+    const policy = loadPolicy(
+      `editor:\n  posts:\n    read: { authorId: '\${session.user}' }\n`,
+      { ...options, variables: ["session"] }
+    )
+
+    expect(policy.rulesFor("editor", { session: { user: 3 } })).toStrictEqual([
+      { action: "read", subject: "posts", conditions: { authorId: 3 } },
+    ])
+    expect(() =>
+      loadPolicy(`editor:\n  posts:\n    read: { id: '\${user.id}' }\n`, {
+        ...options,
+        variables: ["session"],
+      })
+    ).toThrow('Unknown variable "user.id", expected one of session')
+  })
+
+  it("should report errors with the path within the policy", () => {
+    const error = throwsPolicyError(() =>
+      loadPolicy(
+        "editor:\n  posts:\n    read: [{ id: 1 }, { foo: 1 }]\n",
+        options
+      )
+    )
+
+    expect(error).toMatchObject({
+      line: 3,
+      column: 25,
+      path: ["editor", "posts", "read", "1", "foo"],
+    })
+  })
+})
@@ -0,0 +1,222 @@
+import { subject } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import {
+  accessibleBy,
+  accessibleSQL,
+  createDrizzleAbility,
+  ParsingQueryError,
+} from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+// Mongo operators are not part of the RQB v2 types
+interface SubjectMap {
+  simpleTable: Record<string, unknown>
+  posts: Record<string, unknown>
+}
+
+const sortedIds = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+describe("Mongo operators (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.simpleTable).values([
+        { id: 1, name: "Alpha", note: null, tags: ["red"], nums: [1, 2, 3] },
+        { id: 2, name: "Beta", note: "note", tags: ["green"], nums: [3, 4] },
+        { id: 3, name: "Gamma", note: null, tags: ["blue"], nums: [9] },
+      ])
+
+      await dbClient.insert(schema.users).values([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+      ])
+      await dbClient.insert(schema.posts).values([
+        { id: 1, content: "First", authorId: 1 },
+        { id: 2, content: "Second", authorId: 2 },
+        { id: 3, content: "Third", authorId: 1 },
+      ])
+      await dbClient.insert(schema.comments).values([
+        { id: 1, text: "Nice", authorId: 2, postId: 1 },
+        { id: 2, text: "Great", authorId: 1, postId: 2 },
+        { id: 3, text: "Nice", authorId: 2, postId: 3 },
+      ])
+    })
+  })
+
+  /**
+   * Returns the ids permitted by the conditions,
+   * checked in memory, with `accessibleBy()` and with `accessibleSQL()`.
+   */
+  const permittedIds = async (
+    subjectType: "simpleTable" | "posts",
+    conditions: Record<string, unknown>
+  ) => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", subjectType, conditions)
+    })
+
+    const rows: { id: number }[] =
+      subjectType === "posts"
+        ? await db.query.posts.findMany({ with: { comments: true } })
+        : await db.query.simpleTable.findMany()
+    const filtered: { id: number }[] = await (
+      db.query[subjectType].findMany as (
+        config: object
+      ) => Promise<{ id: number }[]>
+    )({ where: accessibleBy(ability, "read").ofType(subjectType) })
+    const selected = await db
+      .select({ id: schema[subjectType].id })
+      .from(schema[subjectType])
+      .where(accessibleSQL(ability, "read", schema[subjectType], relations))
+
+    return {
+      inMemory: sortedIds(
+        rows.filter((row) =>
+          ability.can("read", subject(subjectType, row as SubjectMap["posts"]))
+        )
+      ),
+      accessibleBy: sortedIds(filtered),
+      accessibleSQL: sortedIds(selected),
+    }
+  }
+
+  const cases: [Record<string, unknown>, number[]][] = [
+    [{ id: { $eq: 1 } }, [1]],
+    [{ id: { $ne: 2 } }, [1, 3]],
+    [{ id: { $gt: 1, $lte: 2 } }, [2]],
+    [{ id: { $in: [1, 3] } }, [1, 3]],
+    [{ id: { $nin: [2] } }, [1, 3]],
+    [{ note: { $exists: true } }, [2]],
+    [{ note: { $exists: false } }, [1, 3]],
+    [{ nums: { $all: [1, 2] } }, [1]],
+    [{ name: { $not: { $in: ["Alpha", "Beta"] } } }, [3]],
+    [{ $and: [{ id: { $gt: 1 } }, { id: { $lt: 3 } }] }, [2]],
+    [{ $or: [{ id: 1 }, { name: "Gamma" }] }, [1, 3]],
+    [{ $nor: [{ id: 1 }, { name: "Gamma" }] }, [2]],
+    [{ $nor: [{ id: 1 }], name: { $ne: "Beta" } }, [3]],
+    [{ name: { $regex: "^(Al|Ga)" } }, [1, 3]],
+    [{ name: { $regex: "^al", $options: "i" } }, [1]],
+    [{ name: { $regex: "^al", $options: "" } }, []],
+  ]
+
+  it.each(cases)("should support %j", async (conditions, expected) => {
+    await expect(
+      permittedIds("simpleTable", conditions)
+    ).resolves.toStrictEqual({
+      inMemory: expected,
+      accessibleBy: expected,
+      accessibleSQL: expected,
+    })
+  })
+
+  it("should match related records with $elemMatch like some", async () => {
+    const expected = [1, 3]
+
+    await expect(
+      permittedIds("posts", { comments: { $elemMatch: { authorId: 2 } } })
+    ).resolves.toStrictEqual({
+      inMemory: expected,
+      accessibleBy: expected,
+      accessibleSQL: expected,
+    })
+  })
+
+  it("should reject $elemMatch on array columns", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { nums: { $elemMatch: { $gt: 2 } } })
+    })
+    const message = `"$elemMatch" is only supported on relations`
+
+    expect(() =>
+      ability.can(
+        "read",
+        subject("simpleTable", { id: 1, nums: [1, 3] } as Record<
+          string,
+          unknown
+        >)
+      )
+    ).toThrow(message)
+    expect(() => accessibleBy(ability, "read").simpleTable).toThrow(
+      expect.objectContaining({
+        code: "UNSUPPORTED_OPERATOR",
+        path: "$.nums.$elemMatch",
+      })
+    )
+    expect(() =>
+      accessibleSQL(ability, "read", schema.simpleTable, relations)
+    ).toThrow(message)
+  })
+
+  it.each(["$size", "$mod"])(
+    "should reject %s because Drizzle has no equivalent",
+    (operator) => {
+      const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+        can("read", "simpleTable", { nums: { [operator]: 2 } })
+      })
+      const message = `"${operator}" is not supported because Drizzle has no equivalent operator`
+
+      expect(() =>
+        ability.can(
+          "read",
+          subject("simpleTable", { id: 1, nums: [1, 2] } as Record<
+            string,
+            unknown
+          >)
+        )
+      ).toThrow(message)
+      expect(() => accessibleBy(ability, "read").simpleTable).toThrow(
+        ParsingQueryError
+      )
+      expect(() =>
+        accessibleSQL(ability, "read", schema.simpleTable, relations)
+      ).toThrow(message)
+    }
+  )
+
+  it("should reject $options other than i", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { name: { $regex: "^a", $options: "m" } })
+    })
+    const message = `"$options" only supports "i" (case-insensitive)`
+
+    expect(() =>
+      ability.can(
+        "read",
+        subject("simpleTable", { id: 1, name: "a" } as Record<string, unknown>)
+      )
+    ).toThrow(message)
+    expect(() => accessibleBy(ability, "read").simpleTable).toThrow(message)
+    expect(() =>
+      accessibleSQL(ability, "read", schema.simpleTable, relations)
+    ).toThrow(message)
+  })
+
+  it("should reject $options without $regex", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { name: { $options: "i" } })
+    })
+
+    expect(() => accessibleBy(ability, "read").simpleTable).toThrow(
+      '"$options" requires "$regex"'
+    )
+  })
+
+  it("should reject $where", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { $where: "this.id > 1" })
+    })
+
+    expect(() =>
+      ability.can(
+        "read",
+        subject("simpleTable", { id: 1 } as Record<string, unknown>)
+      )
+    ).toThrow(
+      `"$where" is not supported because Drizzle has no equivalent operator`
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { subject } from "@casl/ability"
+import { describe, expect, expectTypeOf, it } from "vitest"
+
+import type { MongoFieldOperators, MongoQueryInput } from "../src"
+import { createDrizzleAbility } from "../src"
+import type { relations } from "./setup/schema"
+
+type PostQuery = MongoQueryInput<typeof relations, "posts">
+type SimpleQuery = MongoQueryInput<typeof relations, "simpleTable">
+
+interface SubjectMap {
+  posts: PostQuery
+  simpleTable: SimpleQuery
+}
+
+describe("MongoQueryInput types", () => {
+  it("should type the operators by the data type of each column", () => {
+    expectTypeOf<PostQuery["authorId"]>().toEqualTypeOf<
+      number | null | MongoFieldOperators<number | null> | undefined
+    >()
+    expectTypeOf<PostQuery["content"]>().toEqualTypeOf<
+      string | MongoFieldOperators<string> | undefined
+    >()
+    expectTypeOf<SimpleQuery["tags"]>().toEqualTypeOf<
+      string[] | MongoFieldOperators<string[]> | undefined
+    >()
+    expectTypeOf<MongoFieldOperators<string[]>["$all"]>().toEqualTypeOf<
+      string[] | undefined
+    >()
+    expectTypeOf<
+      MongoFieldOperators<number>["$all"]
+    >().toEqualTypeOf<undefined>()
+  })
+
+  it("should accept Mongo operators in rules", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "posts", {
+        id: { $gte: 1, $lt: 10 },
+        authorId: { $in: [1, 2], $not: { $eq: 3 } },
+        content: { $exists: true, $regex: "^po", $options: "i" },
+      })
+      can("read", "posts", {
+        $or: [{ authorId: { $nin: [1] } }, { content: { $ne: "draft" } }],
+        $nor: [{ id: 99 }],
+      })
+      can("read", "posts", { comments: { $elemMatch: { authorId: 1 } } })
+      can("read", "simpleTable", {
+        $and: [{ tags: { $all: ["red"] } }, { name: "Alpha" }],
+      })
+    })
+
+    expect(ability.rules).toHaveLength(4)
+    expect(
+      ability.can(
+        "read",
+        subject("posts", { id: 2, authorId: 1, content: "post" } as PostQuery)
+      )
+    ).toBeTruthy()
+  })
+
+  it("should accept null on nullable columns", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "posts", { authorId: null })
+      can("read", "posts", { authorId: { $ne: null } })
+      can("read", "simpleTable", { note: { $eq: null } })
+    })
+
+    expect(
+      ability.can(
+        "read",
+        subject("posts", { id: 1, authorId: null, content: "post" })
+      )
+    ).toBeTruthy()
+  })
+
+  it("should reject values which don't match the column", () => {
+    createDrizzleAbility<SubjectMap, "read">((can) => {
+      // @ts-expect-error - authorId is a number column
+      can("read", "posts", { authorId: { $in: ["1"] } })
+      // @ts-expect-error - $exists expects a boolean
+      can("read", "posts", { content: { $exists: 1 } })
+      // @ts-expect-error - $all is only available for array columns
+      can("read", "posts", { id: { $all: [1] } })
+      // @ts-expect-error - $regex is only available for text columns
+      can("read", "posts", { id: { $regex: "^1" } })
+      // @ts-expect-error - content is not nullable
+      can("read", "posts", { content: { $ne: null } })
+      // @ts-expect-error - $gt doesn't compare with null
+      can("read", "posts", { authorId: { $gt: null } })
+      // @ts-expect-error - "views" is not a column of posts
+      can("read", "posts", { views: { $gt: 1 } })
+      // @ts-expect-error - $elemMatch queries the columns of comments
+      can("read", "posts", { comments: { $elemMatch: { content: "x" } } })
+      // @ts-expect-error - "author" is not a many relation
+      can("read", "posts", { author: { $elemMatch: { id: 1 } } })
+      // @ts-expect-error - Drizzle's operators are not part of the Mongo format
+      can("read", "posts", { authorId: { in: [1] } })
+    })
+
+    expectTypeOf<SimpleQuery>().not.toHaveProperty("comments")
+  })
+})
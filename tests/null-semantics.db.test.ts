@@ -0,0 +1,151 @@
+import { subject } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import { accessibleBy, accessibleSQL, createDrizzleAbility } from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+// Loaded rows, string operators and relation quantifiers are not part of the RQB v2 types
+interface SubjectMap {
+  simpleTable: Record<string, unknown>
+  posts: Record<string, unknown>
+}
+
+const sortedIds = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+describe("SQL null semantics in memory (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.simpleTable).values([
+        { id: 1, name: "a", note: "alpha", tags: [], nums: [] },
+        { id: 2, name: "b", note: null, tags: ["x"], nums: [1] },
+        { id: 3, name: "c", note: "beta", tags: ["y"], nums: [2] },
+      ])
+
+      await dbClient.insert(schema.users).values([{ id: 1, name: "Alice" }])
+      await dbClient.insert(schema.posts).values([
+        { id: 1, content: "First", authorId: 1 },
+        { id: 2, content: "Second", authorId: null },
+        { id: 3, content: "Third", authorId: 1 },
+      ])
+      await dbClient.insert(schema.comments).values([
+        { id: 1, text: "Nice", authorId: 1, postId: 1 },
+        { id: 2, text: null, authorId: 1, postId: 1 },
+        { id: 3, text: "Nice", authorId: null, postId: 2 },
+        { id: 4, text: "Spam", authorId: 1, postId: 3 },
+      ])
+    })
+  })
+
+  const columnConditions: SubjectMap["simpleTable"][] = [
+    { note: "alpha" },
+    { note: { ne: "alpha" } },
+    { NOT: { note: "alpha" } },
+    { note: { in: ["alpha"] } },
+    { note: { notIn: ["alpha"] } },
+    { note: { notIn: [] } },
+    { note: { like: "a%" } },
+    { NOT: { note: { like: "a%" } } },
+    { note: { gt: "a" } },
+    { note: { isNull: true } },
+    { note: { isNotNull: true } },
+    { OR: [{ note: "alpha" }, { name: "b" }] },
+    { NOT: { OR: [{ note: "alpha" }, { name: "c" }] } },
+    { NOT: { AND: [{ note: { ne: "beta" } }, { name: { ne: "c" } }] } },
+  ]
+
+  it.each(columnConditions)(
+    "should match the database for %j",
+    async (conditions) => {
+      const ability = createDrizzleAbility<SubjectMap, "read">(
+        (can) => {
+          can("read", "simpleTable", conditions)
+        },
+        { nullSemantics: "sql" }
+      )
+
+      const filtered = await db.query.simpleTable.findMany({
+        where: accessibleBy(ability, "read").simpleTable,
+      })
+      const rows = await db.query.simpleTable.findMany()
+
+      expect(
+        sortedIds(
+          rows.filter((row) =>
+            ability.can(
+              "read",
+              subject("simpleTable", row as Record<string, unknown>)
+            )
+          )
+        )
+      ).toStrictEqual(sortedIds(filtered))
+    }
+  )
+
+  const relationConditions: SubjectMap["posts"][] = [
+    { authorId: { ne: 1 } },
+    { comments: { some: { text: { ne: "Spam" } } } },
+    { comments: { every: { text: "Nice" } } },
+    { comments: { every: { NOT: { text: "Spam" } } } },
+    { comments: { none: { text: "Spam" } } },
+    { comments: { none: { authorId: { ne: 1 } } } },
+  ]
+
+  it.each(relationConditions)(
+    "should match the database for relation condition %j",
+    async (conditions) => {
+      const ability = createDrizzleAbility<SubjectMap, "read">(
+        (can) => {
+          can("read", "posts", conditions)
+        },
+        { nullSemantics: "sql" }
+      )
+
+      const where = accessibleBy(ability, "read").posts
+      const filtered = await db.query.posts.findMany({ where })
+      const selected = await db
+        .select()
+        .from(schema.posts)
+        .where(accessibleSQL(ability, "read", schema.posts, relations))
+      const rows = await db.query.posts.findMany({ with: { comments: true } })
+
+      const matched = rows.filter((row) =>
+        ability.can("read", subject("posts", row as Record<string, unknown>))
+      )
+
+      expect(sortedIds(matched)).toStrictEqual(sortedIds(filtered))
+      expect(sortedIds(selected)).toStrictEqual(sortedIds(filtered))
+    }
+  )
+
+  it("should treat null like a JavaScript value by default", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { note: { ne: "alpha" } })
+    })
+    const row: Record<string, unknown> = { id: 2, note: null }
+
+    expect(
+      ability.can(
+        "read",
+        subject("simpleTable", row as Record<string, unknown>)
+      )
+    ).toBeTruthy()
+  })
+
+  it("should not throw for string operators on null values", () => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "simpleTable", { NOT: { note: { startsWith: "a" } } })
+    })
+    const row: Record<string, unknown> = { id: 2, note: null }
+
+    expect(
+      ability.can(
+        "read",
+        subject("simpleTable", row as Record<string, unknown>)
+      )
+    ).toBeTruthy()
+  })
+})
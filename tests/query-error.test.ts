@@ -0,0 +1,127 @@
+import { subject } from "@casl/ability"
+import { sql } from "drizzle-orm"
+import { describe, expect, it } from "vitest"
+
+import { accessibleBy, createDrizzleAbility, ParsingQueryError } from "../src"
+
+// Invalid conditions are not part of the types
+interface UntypedSubjectMap {
+  posts: Record<string, unknown>
+  users: Record<string, unknown>
+}
+
+const post = subject("posts", { id: 1 } as Record<string, unknown>)
+
+const parsingError = (check: () => unknown) => {
+  try {
+    check()
+  } catch (error) {
+    expect(error).toBeInstanceOf(ParsingQueryError)
+    return error as ParsingQueryError
+  }
+  throw new Error("Expected a ParsingQueryError")
+}
+
+const canReadPost = (conditions: Record<string, unknown>) => () => {
+  const ability = createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+    can("read", "posts", conditions)
+  })
+  return ability.can("read", post)
+}
+
+describe("Parsing errors", () => {
+  it("should describe invalid operator values", () => {
+    const error = parsingError(
+      canReadPost({ author: { is: { name: { like: 1 } } } })
+    )
+
+    expect(error).toMatchObject({
+      code: "INVALID_OPERATOR_VALUE",
+      path: "$.author.is.name.like",
+      operator: "like",
+      expected: "string",
+      received: 1,
+    })
+  })
+
+  it.each([
+    [
+      "compound conditions",
+      { OR: [{ id: 1 }, { id: { in: 1 } }] },
+      "$.OR[1].id.in",
+    ],
+    ["values without operator", { author: { is: 1 } }, "$.author.is"],
+    [
+      "nested operators",
+      { content: { not: { like: 1 } } },
+      "$.content.not.like",
+    ],
+    ["$nor", { $nor: [{ id: { $in: 1 } }] }, "$.$nor[0].id.$in"],
+  ])("should report the path within %s", (_, conditions, path) => {
+    expect(parsingError(canReadPost(conditions)).path).toBe(path)
+  })
+
+  it("should report unknown and unsupported operators", () => {
+    expect(
+      parsingError(canReadPost({ id: { in: [1], within: [2] } }))
+    ).toMatchObject({
+      code: "UNKNOWN_OPERATOR",
+      operator: "within",
+      path: "$.id.within",
+    })
+    expect(parsingError(canReadPost({ id: { $mod: [2, 0] } }))).toMatchObject({
+      code: "UNSUPPORTED_OPERATOR",
+      operator: "$mod",
+      path: "$.id.$mod",
+    })
+  })
+
+  it("should report conditions which can't be evaluated in memory", () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read">(
+      (can) => {
+        can("read", "posts", { RAW: sql`true` })
+      },
+      { rawConditions: "throw" }
+    )
+
+    expect(parsingError(() => ability.can("read", post))).toMatchObject({
+      code: "UNSUPPORTED_IN_MEMORY",
+      operator: "RAW",
+    })
+  })
+
+  it("should report the rule of accessibleBy() failures", () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+      can("read", "posts", { authorId: 1 })
+      can("read", "posts", { OR: [{ content: { $size: 1 } }] })
+    })
+    const error = parsingError(() => accessibleBy(ability, "read").posts)
+
+    expect(error).toMatchObject({
+      code: "UNSUPPORTED_OPERATOR",
+      operator: "$size",
+      path: "$.OR[0].content.$size",
+      ruleIndex: 1,
+      subject: "posts",
+      action: "read",
+      rule: ability.rules[1],
+    })
+    expect(error.message).toBe(
+      'Rule #1 for "read" on "posts" at $.OR[0].content.$size: "$size" is not supported because Drizzle has no equivalent operator'
+    )
+  })
+
+  it("should report the path of compiled accessibleBy() conditions", () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+      can("read", "posts", { author: { is: { name: { regex: 1 } } } })
+    })
+
+    expect(
+      parsingError(() => accessibleBy(ability, "read").posts)
+    ).toMatchObject({
+      code: "INVALID_OPERATOR_VALUE",
+      path: "$.author.is.name.regex",
+      ruleIndex: 0,
+    })
+  })
+})
@@ -1,11 +1,17 @@
+import { subject } from "@casl/ability"
 import { sql } from "drizzle-orm"
 import { beforeAll, beforeEach, describe, expect, it } from "vitest"
 
 import type { QueryInput } from "../src"
-import { accessibleBy, createDrizzleAbility } from "../src"
+import {
+  accessibleBy,
+  accessibleSQL,
+  createDrizzleAbility,
+  ParsingQueryError,
+  raw,
+} from "../src"
 import { createDb, resetDb } from "./setup"
-import type { relations } from "./setup/schema"
-import { schema } from "./setup/schema"
+import { relations, schema } from "./setup/schema"
 
 describe("RAW SQL conditions and relation helpers", () => {
   let db: Awaited<ReturnType<typeof createDb>>
@@ -185,4 +191,140 @@ describe("RAW SQL conditions and relation helpers", () => {
       .toSorted((a, b) => a - b)
     expect(ids).toStrictEqual([1, 3])
   })
+
+  describe("raw() predicates", () => {
+    type AllowedAction = "read" | "delete"
+
+    interface SubjectMap {
+      users: QueryInput<typeof relations, "users">
+    }
+
+    const evenIds = raw(
+      (table, { sql: sqlFn }) => sqlFn`${table.id} % 2 = 0`,
+      (user: { id: number }) => user.id % 2 === 0
+    )
+
+    it("should evaluate the predicate in memory", () => {
+      const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+        can("delete", "users", evenIds)
+      })
+
+      expect(
+        ability.can("delete", subject("users", { id: 2, name: "Bob" }))
+      ).toBeTruthy()
+      expect(
+        ability.can("delete", subject("users", { id: 1, name: "Alice" }))
+      ).toBeFalsy()
+    })
+
+    it("should pass the SQL through to accessibleBy and accessibleSQL", async () => {
+      await db.insert(schema.users).values([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+        { id: 3, name: "Charlie" },
+        { id: 4, name: "Dave" },
+      ])
+
+      const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+        can("read", "users", { ...evenIds, name: { ne: "Dave" } })
+      })
+
+      const results = await db.query.users.findMany({
+        where: accessibleBy(ability, "read").users,
+      })
+      const rows = await db
+        .select()
+        .from(schema.users)
+        .where(accessibleSQL(ability, "read", schema.users, relations))
+
+      expect(results.map((r) => r.id)).toStrictEqual([2])
+      expect(rows.map((r) => r.id)).toStrictEqual([2])
+    })
+
+    it("should allow RAW conditions without predicate by default", () => {
+      const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+        can("delete", "users", { RAW: sql`false` })
+      })
+
+      expect(
+        ability.can("delete", subject("users", { id: 1, name: "Alice" }))
+      ).toBeTruthy()
+    })
+
+    it("should deny RAW conditions without predicate in strict mode", () => {
+      const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+        (can) => {
+          can("delete", "users", { RAW: sql`true` })
+          can("delete", "users", { AND: [evenIds] })
+        },
+        { rawConditions: "deny" }
+      )
+
+      expect(
+        ability.can("delete", subject("users", { id: 1, name: "Alice" }))
+      ).toBeFalsy()
+      expect(
+        ability.can("delete", subject("users", { id: 2, name: "Bob" }))
+      ).toBeTruthy()
+    })
+
+    it("should reject RAW conditions without predicate which would grant access in strict mode", () => {
+      const inCannotRule = () =>
+        createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can, cannot) => {
+            can("delete", "users")
+            cannot("delete", "users", { RAW: sql`id = 1` })
+          },
+          { rawConditions: "deny" }
+        )
+      const inNot = () =>
+        createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("delete", "users", { NOT: { RAW: sql`id = 1` } })
+          },
+          { rawConditions: "deny" }
+        )
+
+      expect(inCannotRule).toThrow(
+        expect.objectContaining({
+          code: "UNSUPPORTED_IN_MEMORY",
+          operator: "RAW",
+          ruleIndex: 1,
+        })
+      )
+      expect(inNot).toThrow(
+        expect.objectContaining({
+          code: "UNSUPPORTED_IN_MEMORY",
+          ruleIndex: 0,
+        })
+      )
+    })
+
+    it("should deny with RAW conditions without predicate within NOT of cannot rules", () => {
+      const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+        (can, cannot) => {
+          can("delete", "users")
+          cannot("delete", "users", { NOT: { RAW: sql`id = 1` } })
+        },
+        { rawConditions: "deny" }
+      )
+
+      expect(
+        ability.can("delete", subject("users", { id: 2, name: "Bob" }))
+      ).toBeFalsy()
+    })
+
+    it("should throw for RAW conditions without predicate", () => {
+      const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+        (can) => {
+          can("delete", "users", { RAW: sql`true` })
+        },
+        { rawConditions: "throw" }
+      )
+
+      expect(() =>
+        ability.can("delete", subject("users", { id: 1, name: "Alice" }))
+      ).toThrow(ParsingQueryError)
+    })
+  })
 })
@@ -0,0 +1,204 @@
+import { PGlite } from "@electric-sql/pglite"
+import { defineRelations, sql } from "drizzle-orm"
+import * as p from "drizzle-orm/pg-core"
+import { drizzle } from "drizzle-orm/pglite"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { QueryInput } from "../src"
+import {
+  accessibleBy,
+  accessibleSQL,
+  createDrizzleAbility,
+  none,
+  some,
+} from "../src"
+
+const client = new PGlite()
+
+// Column names are derived from the property names with snake_case casing
+const authors = p.snakeCase.table("authors", {
+  id: p.integer().primaryKey(),
+  displayName: p.text().notNull(),
+})
+
+const articles = p.snakeCase.table("articles", {
+  id: p.integer().primaryKey(),
+  authorId: p.integer().notNull(),
+  reviewerId: p.integer(),
+})
+
+const relations = defineRelations({ authors, articles }, (r) => ({
+  authors: {
+    articles: r.many.articles({
+      from: r.authors.id,
+      to: r.articles.authorId,
+    }),
+  },
+}))
+
+interface SubjectMap {
+  authors: QueryInput<typeof relations, "authors">
+}
+
+describe("relation helper columns with snake_case casing (DB)", () => {
+  const db = drizzle({ client, relations })
+
+  beforeAll(async () => {
+    await db.execute(
+      sql`create table authors (id integer primary key, display_name text not null)`
+    )
+    await db.execute(
+      sql`create table articles (id integer primary key, author_id integer not null, reviewer_id integer)`
+    )
+
+    await db.insert(authors).values([
+      { id: 1, displayName: "Alice" },
+      { id: 2, displayName: "Bob" },
+      { id: 3, displayName: "Charlie" },
+    ])
+    await db.insert(articles).values([
+      { id: 1, authorId: 1, reviewerId: 2 },
+      { id: 2, authorId: 1, reviewerId: null },
+      { id: 3, authorId: 2, reviewerId: 2 },
+    ])
+  })
+
+  const abilityFor = (conditions: SubjectMap["authors"]) =>
+    createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "authors", conditions)
+    })
+
+  it("should resolve untyped columns through the column config", async () => {
+    const ability = abilityFor({
+      articles: some(({ eq, columns }) => eq(columns.reviewerId, 2)),
+    })
+
+    const rows = await db.query.authors.findMany({
+      where: accessibleBy(ability, "read").authors,
+    })
+
+    expect(rows.map((row) => row.id).toSorted()).toStrictEqual([1, 2])
+  })
+
+  it("should resolve columns of the parent table", async () => {
+    const ability = abilityFor({
+      articles: some(({ eq, columns, parent }) =>
+        eq(columns.reviewerId, parent.id)
+      ),
+    })
+
+    const rows = await db.query.authors.findMany({
+      where: accessibleBy(ability, "read", { relations }).authors,
+    })
+    expect(rows.map((row) => row.id)).toStrictEqual([2])
+
+    const selected = await db
+      .select()
+      .from(authors)
+      .where(accessibleSQL(ability, "read", authors, relations))
+    expect(selected.map((row) => row.id)).toStrictEqual([2])
+  })
+
+  it("should throw for unknown columns", async () => {
+    const ability = abilityFor({
+      articles: none(({ isNull, columns }) => isNull(columns.reviewer)),
+    })
+
+    await expect(
+      db.query.authors.findMany({
+        where: accessibleBy(ability, "read").authors,
+      })
+    ).rejects.toThrow(
+      `Unknown column "reviewer" on the related table "articles"`
+    )
+  })
+})
+
+// Config keys differ from the table and column names, which are set explicitly
+const namedAuthors = p.pgTable("writers", {
+  id: p.integer().primaryKey(),
+  displayName: p.text("display_name").notNull(),
+})
+
+const namedArticles = p.pgTable("drafts", {
+  id: p.integer().primaryKey(),
+  authorId: p.integer("author_id").notNull(),
+  reviewerId: p.integer("reviewer_id"),
+})
+
+const namedRelations = defineRelations(
+  { authors: namedAuthors, articles: namedArticles },
+  (r) => ({
+    authors: {
+      articles: r.many.articles({
+        from: r.authors.id,
+        to: r.articles.authorId,
+      }),
+    },
+  })
+)
+
+interface NamedSubjectMap {
+  authors: QueryInput<typeof namedRelations, "authors">
+}
+
+describe("relation helper columns with explicit column names (DB)", () => {
+  const db = drizzle({ client, relations: namedRelations })
+
+  beforeAll(async () => {
+    await db.execute(
+      sql`create table writers (id integer primary key, display_name text not null)`
+    )
+    await db.execute(
+      sql`create table drafts (id integer primary key, author_id integer not null, reviewer_id integer)`
+    )
+
+    await db.insert(namedAuthors).values([
+      { id: 1, displayName: "Alice" },
+      { id: 2, displayName: "Bob" },
+      { id: 3, displayName: "Charlie" },
+    ])
+    await db.insert(namedArticles).values([
+      { id: 1, authorId: 1, reviewerId: 2 },
+      { id: 2, authorId: 1, reviewerId: null },
+      { id: 3, authorId: 2, reviewerId: 2 },
+    ])
+  })
+
+  const abilityFor = (conditions: NamedSubjectMap["authors"]) =>
+    createDrizzleAbility<NamedSubjectMap, "read">((can) => {
+      can("read", "authors", conditions)
+    })
+
+  it("should resolve untyped columns through the column config", async () => {
+    const ability = abilityFor({
+      articles: some(({ eq, columns }) => eq(columns.reviewerId, 2)),
+    })
+
+    const rows = await db.query.authors.findMany({
+      where: accessibleBy(ability, "read").authors,
+    })
+
+    expect(rows.map((row) => row.id).toSorted()).toStrictEqual([1, 2])
+  })
+
+  it("should resolve columns of the parent table", async () => {
+    const ability = abilityFor({
+      articles: some(({ eq, columns, parent }) =>
+        eq(columns.reviewerId, parent.id)
+      ),
+    })
+
+    const rows = await db.query.authors.findMany({
+      where: accessibleBy(ability, "read", { relations: namedRelations })
+        .authors,
+    })
+    expect(rows.map((row) => row.id)).toStrictEqual([2])
+
+    const selected = await db
+      .select()
+      .from(namedAuthors)
+      .where(accessibleSQL(ability, "read", namedAuthors, namedRelations))
+    expect(selected.map((row) => row.id)).toStrictEqual([2])
+  })
+})
@@ -1,38 +1,44 @@
-import { sql } from "drizzle-orm"
+import { subject } from "@casl/ability"
+import { operators, sql } from "drizzle-orm"
 import { describe, expect, expectTypeOf, it } from "vitest"
 
-import { every, none, some } from "../src"
+import { createDrizzleAbility, every, none, some } from "../src"
+import type { relations } from "./setup/schema"
+import { schema } from "./setup/schema"
+
+// Related records of in-memory subjects are not part of the RQB v2 types
+interface UntypedSubjectMap {
+  posts: Record<string, unknown>
+}
+
+const postWith = (comments: Record<string, unknown>[]) =>
+  subject("posts", { id: 1, comments } as Record<string, unknown>)
 
 describe("relation helper functions (some, every, none)", () => {
-  it("should create a RAW condition from some()", () => {
+  it("should create a some relation condition", () => {
     const condition = sql`user_id = 42`
     const result = some(condition)
 
-    expect(result).toStrictEqual({ RAW: condition })
-    expect(result.RAW).toBe(condition)
+    expect(result).toStrictEqual({ some: { RAW: condition } })
   })
 
-  it("should create a RAW condition from every()", () => {
+  it("should create an every relation condition", () => {
     const condition = sql`status = 'approved'`
     const result = every(condition)
 
-    expect(result).toStrictEqual({ RAW: condition })
-    expect(result.RAW).toBe(condition)
+    expect(result).toStrictEqual({ every: { RAW: condition } })
   })
 
-  it("should create a RAW condition from none() with condition", () => {
+  it("should create a none relation condition with condition", () => {
     const condition = sql`status = 'pending'`
     const result = none(condition)
 
-    expect(result).toStrictEqual({ RAW: condition })
-    expect(result.RAW).toBe(condition)
+    expect(result).toStrictEqual({ none: { RAW: condition } })
   })
 
-  it("should create a RAW condition from none() without condition", () => {
-    const result = none()
-
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
+  it("should create a none relation condition without condition", () => {
+    expect(none()).toStrictEqual({ none: {} })
+    expect(none(schema.comments)).toStrictEqual({ none: {} })
   })
 
   it("should support complex SQL conditions in some()", () => {
@@ -41,7 +47,7 @@ describe("relation helper functions (some, every, none)", () => {
     const condition = sql`user_id = ${userId} AND created_at > ${date}`
     const result = some(condition)
 
-    expect(result.RAW).toBe(condition)
+    expect(result.some).toStrictEqual({ RAW: condition })
   })
 
   it("should support complex SQL conditions in every()", () => {
@@ -49,7 +55,7 @@ describe("relation helper functions (some, every, none)", () => {
     const condition = sql`status = ANY(${statuses})`
     const result = every(condition)
 
-    expect(result.RAW).toBe(condition)
+    expect(result.every).toStrictEqual({ RAW: condition })
   })
 
   it("should support complex SQL conditions in none()", () => {
@@ -57,15 +63,15 @@ describe("relation helper functions (some, every, none)", () => {
     const condition = sql`amount > ${threshold}`
     const result = none(condition)
 
-    expect(result.RAW).toBe(condition)
+    expect(result.none).toStrictEqual({ RAW: condition })
   })
 
   it("should support builder function syntax in some()", () => {
     const userId = 123
     const result = some(({ sql: sqlFn }) => sqlFn`user_id = ${userId}`)
 
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
+    expect(result.some).toHaveProperty("RAW")
+    expectTypeOf(result.some).toBeObject()
   })
 
   it("should support builder function with Drizzle operators in some()", () => {
@@ -74,67 +80,98 @@ describe("relation helper functions (some, every, none)", () => {
     const threshold = 100
     const result = some(({ sql: sqlFn }) => sqlFn`amount > ${threshold}`)
 
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
+    expect(result.some).toHaveProperty("RAW")
   })
 
   it("should support builder function syntax in every()", () => {
     const status = "approved"
     const result = every(({ sql: sqlFn }) => sqlFn`status = ${status}`)
 
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
+    expect(result.every).toHaveProperty("RAW")
   })
 
   it("should support builder function syntax in none()", () => {
     const threshold = 100
     const result = none(({ sql: sqlFn }) => sqlFn`amount > ${threshold}`)
 
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
-  })
-
-  it("should support Drizzle operators in builder function", () => {
-    // Verify that Drizzle operators are available via the builder function parameter
-    let operatorsAvailable = false
-    some(({ eq, lt, gt, ne, sql: sqlFn }) => {
-      // Just checking that these operators exist and are functions
-      operatorsAvailable =
-        typeof eq === "function" &&
-        typeof lt === "function" &&
-        typeof gt === "function" &&
-        typeof ne === "function" &&
-        typeof sqlFn === "function"
-      return sqlFn`true` // dummy return
+    expect(result.none).toHaveProperty("RAW")
+  })
+
+  it("should run builder functions when the query is built", () => {
+    let calls = 0
+    const result = some(({ sql: sqlFn }) => {
+      calls += 1
+      return sqlFn`true`
     })
 
-    expect(operatorsAvailable).toBeTruthy()
+    expect(calls).toBe(0)
+    expect((result.some as { RAW: unknown }).RAW).toBeTypeOf("function")
   })
 
-  it("should provide columns proxy in builder function", () => {
-    // Verify that columns proxy is available and returns SQL for property access
-    let columnsWork = false
-    some(({ eq, columns }) => {
-      // Check that columns is an object and property access returns SQL
-      columnsWork =
-        typeof columns === "object" && typeof columns.name === "object"
-      return eq(columns.name, "test")
-    })
+  it("should throw when a table is passed without condition", () => {
+    expect(() =>
+      // @ts-expect-error - condition is required for some()
+      some(schema.comments)
+    ).toThrow("Condition is required when table is provided")
+  })
 
-    expect(columnsWork).toBeTruthy()
+  it("should pass object queries through as relation conditions", () => {
+    expect(some({ authorId: 2 })).toStrictEqual({ some: { authorId: 2 } })
+    expect(every({ text: { like: "%nice%" } })).toStrictEqual({
+      every: { text: { like: "%nice%" } },
+    })
+    expect(none({ OR: [{ authorId: 1 }, { authorId: 2 }] })).toStrictEqual({
+      none: { OR: [{ authorId: 1 }, { authorId: 2 }] },
+    })
   })
 
-  it("should support columns proxy with operators in every()", () => {
-    const result = every(({ eq, columns }) => eq(columns.status, "approved"))
+  it("should type object queries for the related table", () => {
+    const condition = some<typeof relations, "comments">({
+      authorId: { gt: 1 },
+    })
+    expect(condition).toStrictEqual({ some: { authorId: { gt: 1 } } })
 
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
+    // @ts-expect-error - "views" is not a column of comments
+    some<typeof relations, "comments">({ views: 1 })
   })
 
-  it("should support columns proxy with operators in none()", () => {
-    const result = none(({ ne, columns }) => ne(columns.status, "deleted"))
+  it("should evaluate object queries in memory", () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read" | "update">(
+      (can) => {
+        can("read", "posts", { comments: every({ authorId: 2 }) })
+        can("update", "posts", { comments: none({ authorId: 2 }) })
+      }
+    )
+
+    expect(ability.can("read", postWith([{ authorId: 2 }]))).toBeTruthy()
+    expect(
+      ability.can("read", postWith([{ authorId: 2 }, { authorId: 3 }]))
+    ).toBeFalsy()
+    expect(ability.can("update", postWith([{ authorId: 3 }]))).toBeTruthy()
+    expect(ability.can("update", postWith([{ authorId: 2 }]))).toBeFalsy()
+  })
+
+  it("should throw when the parent table is not available", () => {
+    const { some: filter } = some(({ eq: eqFn, parent }) =>
+      eqFn(parent.authorId, 1)
+    ) as { some: { RAW: (table: unknown, ops: typeof operators) => unknown } }
+
+    expect(() => filter.RAW(schema.comments, operators)).toThrow(
+      "The parent table is only available when the condition is used with accessibleSQL(), or with accessibleBy() given the relations config"
+    )
+  })
 
-    expect(result).toHaveProperty("RAW")
-    expectTypeOf(result.RAW).toBeObject()
+  it("should throw for unknown columns of the parent table", () => {
+    const { some: filter } = some(({ eq: eqFn, parent }) =>
+      eqFn(parent.views, 1)
+    ) as {
+      some: {
+        RAW: (table: unknown, ops: typeof operators, parent: unknown) => unknown
+      }
+    }
+
+    expect(() => filter.RAW(schema.comments, operators, schema.posts)).toThrow(
+      `Unknown column "views" on the parent table "posts"`
+    )
   })
 })
@@ -3,10 +3,18 @@ import { sql, notExists, eq, and } from "drizzle-orm"
 import { beforeAll, describe, expect, it } from "vitest"
 
 import type { QueryInput } from "../src"
-import { accessibleBy, createDrizzleAbility, some, every, none } from "../src"
+import {
+  accessibleBy,
+  accessibleQuery,
+  createDrizzleAbility,
+  some,
+  every,
+  none,
+  raw,
+} from "../src"
 import { createDb } from "./setup"
-import type { Relations, relations } from "./setup/schema"
-import { schema } from "./setup/schema"
+import type { Relations } from "./setup/schema"
+import { relations, schema } from "./setup/schema"
 
 describe("Relations (DB)", () => {
   let db: Awaited<ReturnType<typeof createDb>>
@@ -407,7 +415,7 @@ describe("Relations (DB)", () => {
     })
 
     describe("none() - no related records must match", () => {
-      it.fails("should filter posts where no comments are from author 2 using none()", async () => {
+      it("should filter posts where no comments are from author 2 using none()", async () => {
         const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
           (can) => {
             can("read", "posts", {
@@ -456,7 +464,7 @@ describe("Relations (DB)", () => {
         expect(ids).toStrictEqual([])
       })
 
-      it.fails("should filter users with none() where no posts contain 'Charlie' using raw SQL", async () => {
+      it("should filter users with none() where no posts contain 'Charlie' using raw SQL", async () => {
         const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
           (can) => {
             can("read", "users", {
@@ -481,11 +489,52 @@ describe("Relations (DB)", () => {
         expect(ids).toStrictEqual([1, 2])
       })
 
-      it.fails("should filter posts with notExists() workaround when none() has inverted semantics", async () => {
-        // Workaround for none() inverted logic in complex paths:
-        // Use notExists() with Drizzle's type-safe builder
+      it("should correlate typed none() conditions with the related table alias", async () => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "posts", {
+              comments: none(schema.comments, ({ eq: eqFn, columns }) =>
+                eqFn(columns.authorId, 2)
+              ),
+            })
+          }
+        )
+
+        const filters = accessibleBy(ability, "read")
+        const results = await db.query.posts.findMany({ where: filters.posts })
+
+        const ids = results
+          .map((r: { id: number }) => r.id)
+          .toSorted((a, b) => a - b)
+
+        // Posts 1 and 3 have comments from author 2
+        expect(ids).toStrictEqual([2, 4, 5])
+      })
+
+      it("should require every related record to match in every()", async () => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "posts", {
+              comments: every(sql`author_id = 2`),
+            })
+          }
+        )
+
+        const filters = accessibleBy(ability, "read")
+        const results = await db.query.posts.findMany({ where: filters.posts })
+
+        const ids = results
+          .map((r: { id: number }) => r.id)
+          .toSorted((a, b) => a - b)
+
+        // Post 1 also has a comment from author 3
+        expect(ids).toStrictEqual([3])
+      })
+
+      it.fails("should filter posts with a notExists() subquery referencing the outer table", async () => {
         // NOTE: This currently fails due to Drizzle's subquery alias limitations:
-        // The subquery cannot reference the outer table correctly (posts vs d0 alias)
+        // The subquery cannot reference the outer table correctly (posts vs d0 alias).
+        // Use `parent` in the relation helpers instead, see "parent references".
         const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
           (can) => {
             can("read", "posts", {
@@ -522,7 +571,7 @@ describe("Relations (DB)", () => {
         expect(ids).toStrictEqual([2, 4, 5])
       })
 
-      it.fails("should filter posts with raw SQL NOT EXISTS when none() has inverted semantics", async () => {
+      it.fails("should filter posts with raw SQL NOT EXISTS referencing the outer table", async () => {
         // NOTE: This fails due to Drizzle's alias limitation:
         // When the outer table is aliased (posts as d0), raw SQL cannot reference "posts"
         // The query generator creates: WHERE ... posts.id = ... but the table is actually "d0"
@@ -555,6 +604,161 @@ describe("Relations (DB)", () => {
         expect(ids).toStrictEqual([2, 4, 5])
       })
     })
+
+    describe("object queries", () => {
+      const postIdsFor = async (conditions: SubjectMap["posts"]) => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "posts", conditions)
+          }
+        )
+
+        const results = await db.query.posts.findMany({
+          where: accessibleBy(ability, "read").posts,
+        })
+
+        return results
+          .map((r: { id: number }) => r.id)
+          .toSorted((a, b) => a - b)
+      }
+
+      it("should filter with object queries for the related table", async () => {
+        await expect(
+          postIdsFor({ comments: some({ authorId: 3 }) })
+        ).resolves.toStrictEqual([1])
+        await expect(
+          postIdsFor({ comments: every({ authorId: { gte: 2 } }) })
+        ).resolves.toStrictEqual([1, 3])
+        await expect(
+          postIdsFor({
+            comments: none<typeof relations, "comments">({ authorId: 2 }),
+          })
+        ).resolves.toStrictEqual([2, 4, 5])
+      })
+    })
+
+    describe("parent references", () => {
+      const postIdsFor = async (conditions: SubjectMap["posts"]) => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "posts", conditions)
+          }
+        )
+
+        const results = await db.query.posts.findMany({
+          where: accessibleBy(ability, "read", { relations }).posts,
+        })
+
+        return results
+          .map((r: { id: number }) => r.id)
+          .toSorted((a, b) => a - b)
+      }
+
+      it("should compare related records with the parent row", async () => {
+        // Post 3 is the only post with a comment from its own author
+        await expect(
+          postIdsFor({
+            comments: some(
+              schema.comments,
+              ({ eq: eqFn, columns, parent }) =>
+                eqFn(columns.authorId, parent.authorId),
+              { parent: schema.posts }
+            ),
+          })
+        ).resolves.toStrictEqual([3])
+        await expect(
+          postIdsFor({
+            comments: none(
+              schema.comments,
+              ({ eq: eqFn, columns, parent }) =>
+                eqFn(columns.authorId, parent.authorId),
+              { parent: schema.posts }
+            ),
+          })
+        ).resolves.toStrictEqual([1, 2, 4, 5])
+        await expect(
+          postIdsFor({
+            comments: every(({ eq: eqFn, columns, parent }) =>
+              eqFn(columns.authorId, parent.authorId)
+            ),
+          })
+        ).resolves.toStrictEqual([3])
+      })
+
+      it("should pass the parent table to raw() within object queries", async () => {
+        await expect(
+          postIdsFor({
+            comments: some({
+              ...raw((comment, { eq: eqFn }, post) =>
+                eqFn(comment.authorId, post.authorId)
+              ),
+            }),
+          })
+        ).resolves.toStrictEqual([3])
+      })
+
+      it("should use the relations config of strict abilities", async () => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "posts", {
+              comments: some(({ eq: eqFn, columns, parent }) =>
+                eqFn(columns.authorId, parent.authorId)
+              ),
+            })
+          },
+          { strict: { relations } }
+        )
+
+        const results = await db.query.posts.findMany({
+          where: accessibleBy(ability, "read").posts,
+        })
+
+        expect(results.map((r: { id: number }) => r.id)).toStrictEqual([3])
+      })
+
+      it("should resolve the parent table of related records loaded via with", async () => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "users")
+            can("read", "posts", {
+              comments: some(({ eq: eqFn, columns, parent }) =>
+                eqFn(columns.authorId, parent.authorId)
+              ),
+            })
+          }
+        )
+
+        const results = await db.query.users.findMany(
+          accessibleQuery(ability, "read", relations, "users", {
+            with: { posts: true },
+          })
+        )
+
+        expect(
+          results.flatMap((user) => user.posts.map((post) => post.id))
+        ).toStrictEqual([3])
+      })
+
+      it("should throw for parent references without the relations config", async () => {
+        const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
+          (can) => {
+            can("read", "posts", {
+              comments: some(({ eq: eqFn, columns, parent }) =>
+                eqFn(columns.authorId, parent.authorId)
+              ),
+            })
+          }
+        )
+
+        await expect(async () =>
+          db.query.posts.findMany({
+            where: accessibleBy(ability, "read").posts,
+          })
+        ).rejects.toThrow(
+          "The parent table is only available when the condition is used with accessibleSQL(), or with accessibleBy() given the relations config"
+        )
+      })
+    })
   })
 
   describe("Many-to-Many: users <-> groups", () => {
@@ -631,7 +835,7 @@ describe("Relations (DB)", () => {
     })
 
     describe("none()", () => {
-      it.fails("should filter users where none of their groups is Admins", async () => {
+      it("should filter users where none of their groups is Admins", async () => {
         const ability = createDrizzleAbility<SubjectMap, AllowedAction>(
           (can) => {
             can("read", "users", {
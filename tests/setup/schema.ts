@@ -30,6 +30,17 @@ export const comments = p.pgTable("comments", {
   postId: p.integer("post_id"),
 })
 
+const tsvector = p.customType<{ data: string }>({
+  dataType: () => "tsvector",
+})
+
+export const documents = p.pgTable("documents", {
+  id: p.integer().primaryKey(),
+  metadata: p.jsonb(),
+  settings: p.json(),
+  keywords: tsvector(),
+})
+
 export const groups = p.pgTable("groups", {
   id: p.integer().primaryKey(),
   name: p.text(),
@@ -55,7 +66,7 @@ export const usersToGroups = p.pgTable(
 )
 
 export const relations = defineRelations(
-  { simpleTable, users, posts, comments, groups, usersToGroups },
+  { simpleTable, users, posts, comments, groups, usersToGroups, documents },
   (r) => ({
     posts: {
       author: r.one.users({
@@ -92,4 +103,5 @@ export const schema = {
   groups,
   usersToGroups,
   simpleTable,
+  documents,
 }
@@ -31,6 +31,7 @@ const TABLE_NAMES = [
   "groups",
   "users_to_groups",
   "simple_table",
+  "documents",
 ]
 
 /**
@@ -0,0 +1,174 @@
+import { subject } from "@casl/ability"
+import { sql } from "drizzle-orm"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { DrizzleAbilityOptions } from "../src"
+import {
+  accessibleBy,
+  accessibleSQL,
+  createDrizzleAbility,
+  ParsingQueryError,
+} from "../src"
+import { createDb } from "./setup"
+import { relations, schema } from "./setup/schema"
+
+// regex, iregex and search are not part of the RQB v2 types
+interface SubjectMap {
+  comments: Record<string, unknown>
+  documents: Record<string, unknown>
+}
+
+const sortedIds = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+const allOf = (ids: number[]) => ({
+  inMemory: ids,
+  sqlLogic: ids,
+  accessibleBy: ids,
+  accessibleSQL: ids,
+})
+
+describe("regex and full-text search (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.comments).values([
+        { id: 1, text: "PUBLIC-001 Finance report" },
+        { id: 2, text: "public-002 legal memo" },
+        { id: 3, text: "INTERNAL-003 finance and legal" },
+        { id: 4, text: null },
+      ])
+      await dbClient.insert(schema.documents).values([
+        { id: 1, keywords: sql`to_tsvector('finance report')` },
+        { id: 2, keywords: sql`to_tsvector('legal')` },
+        { id: 3, keywords: null },
+      ])
+    })
+  })
+
+  /**
+   * Returns the ids of the permitted records, checked in memory (with JavaScript
+   * and SQL null semantics), with `accessibleBy()` and with `accessibleSQL()`.
+   */
+  const permittedIds = async (
+    subjectType: "comments" | "documents",
+    conditions: Record<string, unknown>
+  ) => {
+    const abilityWith = (options?: DrizzleAbilityOptions) =>
+      createDrizzleAbility<SubjectMap, "read">((can) => {
+        can("read", subjectType, conditions)
+      }, options)
+    const ability = abilityWith()
+    const sqlAbility = abilityWith({ nullSemantics: "sql" })
+
+    const rows: { id: number }[] =
+      subjectType === "comments"
+        ? await db.query.comments.findMany()
+        : await db.query.documents.findMany()
+    const filtered: { id: number }[] = await (
+      db.query[subjectType].findMany as (
+        config: object
+      ) => Promise<{ id: number }[]>
+    )({ where: accessibleBy(ability, "read").ofType(subjectType) })
+    const selected = await db
+      .select({ id: schema[subjectType].id })
+      .from(schema[subjectType])
+      .where(accessibleSQL(ability, "read", schema[subjectType], relations))
+    const permitted = (checked: typeof ability) =>
+      sortedIds(
+        rows.filter((row) =>
+          checked.can(
+            "read",
+            subject(subjectType, row as Record<string, unknown>)
+          )
+        )
+      )
+
+    return {
+      inMemory: permitted(ability),
+      sqlLogic: permitted(sqlAbility),
+      accessibleBy: sortedIds(filtered),
+      accessibleSQL: sortedIds(selected),
+    }
+  }
+
+  const cases: [Record<string, unknown>, number[]][] = [
+    [{ text: { regex: "^PUBLIC-" } }, [1]],
+    [{ text: { iregex: "^public-" } }, [1, 2]],
+    [{ text: { regex: "^public-", mode: "insensitive" } }, [1, 2]],
+    [{ text: { regex: String.raw`-\d{3} ` } }, [1, 2, 3]],
+    [{ NOT: { text: { regex: "legal" } }, id: { lt: 4 } }, [1]],
+    [{ text: { regex: "^[[:upper:]]{6}-[[:digit:]]+" } }, [1]],
+    [
+      { text: { iregex: "^[[:alpha:]]+-[^[:space:][:alpha:]]{3} " } },
+      [1, 2, 3],
+    ],
+    [{ text: { regex: "(?<=-)00[12]" } }, [1, 2]],
+    [{ text: { search: "finance" } }, [1, 3]],
+    [{ text: { search: "Finance & legal" } }, [3]],
+    [{ text: { search: "finance & !legal" } }, [1]],
+    [{ text: { search: "memo | report" } }, [1, 2]],
+    [{ text: { search: "(memo | report) & !public" } }, []],
+    [{ text: { search: "fin:*" } }, [1, 3]],
+    [{ text: { search: "finance <-> report" } }, [1]],
+  ]
+
+  it.each(cases)("should support %j", async (conditions, expected) => {
+    await expect(permittedIds("comments", conditions)).resolves.toStrictEqual(
+      allOf(expected)
+    )
+  })
+
+  it("should search tsvector columns without converting them", async () => {
+    await expect(
+      // Lexemes of tsvector values are stemmed, e.g. "financ", so in-memory
+      // checks only match words without suffixes
+      permittedIds("documents", { keywords: { search: "report | legal" } })
+    ).resolves.toStrictEqual(allOf([1, 2]))
+  })
+
+  it.each([
+    [{ regex: "(" }, `"regex" expects to receive a regular expression`],
+    [
+      { regex: String.raw`\y` },
+      `"regex" expects to receive a regular expression`,
+    ],
+    [{ regex: "(?<id>PUBLIC)" }, `"regex" doesn't support named groups`],
+    [
+      { iregex: String.raw`\p{Lu}` },
+      `"iregex" doesn't support Unicode property escapes`,
+    ],
+    [
+      { regex: "[[:letter:]]" },
+      `doesn't support the character class "[:letter:]"`,
+    ],
+    [{ iregex: 1 }, `"iregex" expects to receive string`],
+    [
+      { search: "finance legal" },
+      `"search" expects to receive a to_tsquery() query`,
+    ],
+    [
+      { search: "(finance" },
+      `"search" expects to receive a to_tsquery() query`,
+    ],
+    [
+      { search: "finance & " },
+      `"search" expects to receive a to_tsquery() query`,
+    ],
+  ])("should reject the invalid condition %j", (query, message) => {
+    const ability = createDrizzleAbility<SubjectMap, "read">((can) => {
+      can("read", "comments", { text: query })
+    })
+
+    expect(() =>
+      ability.can(
+        "read",
+        subject("comments", { id: 1, text: "x" } as Record<string, unknown>)
+      )
+    ).toThrow(message)
+    expect(() => accessibleBy(ability, "read").comments).toThrow(
+      ParsingQueryError
+    )
+  })
+})
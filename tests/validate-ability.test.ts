@@ -0,0 +1,195 @@
+import { sql } from "drizzle-orm"
+import { describe, expect, it } from "vitest"
+
+import type { DrizzleAbilityOptions } from "../src"
+import {
+  createDrizzleAbility,
+  createDrizzleAbilityFor,
+  ParsingQueryError,
+  some,
+  validateAbility,
+} from "../src"
+import { relations } from "./setup/schema"
+
+// Invalid conditions are not part of the types
+interface UntypedSubjectMap {
+  posts: Record<string, unknown>
+  users: Record<string, unknown>
+  simpleTable: Record<string, unknown>
+  Article: Record<string, unknown>
+}
+
+const abilityWith = (
+  conditions: Record<string, unknown>,
+  options?: DrizzleAbilityOptions
+) => {
+  const DrizzleAbility = createDrizzleAbilityFor(options)
+  return new DrizzleAbility([
+    { action: "read", subject: "users" },
+    { action: ["read", "update"], subject: "posts", conditions },
+  ])
+}
+
+const validationError = (conditions: Record<string, unknown>) => {
+  try {
+    validateAbility(abilityWith(conditions), relations)
+  } catch (error) {
+    expect(error).toBeInstanceOf(ParsingQueryError)
+    return error as ParsingQueryError
+  }
+  throw new Error("Expected a ParsingQueryError")
+}
+
+describe("Ability validation", () => {
+  it("should accept valid conditions", () => {
+    const ability = abilityWith({
+      authorId: { in: [1, 2], $ne: null },
+      content: { like: "%draft%", mode: "insensitive" },
+      author: { is: { name: "Alice" } },
+      comments: { every: { text: { ne: null } }, semantics: "vacuous" },
+      OR: [{ id: 1 }, { author: { id: { gt: 1 } } }],
+      RAW: sql`true`,
+    })
+
+    expect(() => validateAbility(ability, relations)).not.toThrow()
+  })
+
+  it("should accept boolean relation filters", () => {
+    const ability = abilityWith({
+      author: true,
+      OR: [{ comments: false }, { comments: { some: { post: true } } }],
+    })
+
+    expect(() => validateAbility(ability, relations)).not.toThrow()
+  })
+
+  it("should accept $regex with $options on text columns", () => {
+    const ability = abilityWith({
+      content: { $regex: "^a", $options: "i" },
+      author: { is: { name: { $regex: "^A" } } },
+    })
+
+    expect(() => validateAbility(ability, relations)).not.toThrow()
+    expect(validationError({ authorId: { $regex: "^1" } })).toMatchObject({
+      code: "UNSUPPORTED_OPERATOR",
+      path: "$.authorId.$regex",
+    })
+  })
+
+  it.each([
+    [
+      "unknown fields",
+      { autorId: 1 },
+      "$.autorId",
+      'Unknown field "autorId", "posts" has no such column or relation',
+    ],
+    [
+      "unknown fields of relations",
+      { author: { is: { nme: "Alice" } } },
+      "$.author.is.nme",
+      'Unknown field "nme", "users"',
+    ],
+    [
+      "unknown fields without quantifier",
+      { comments: { txt: "x" } },
+      "$.comments.txt",
+      'Unknown field "txt", "comments"',
+    ],
+    [
+      "unknown fields within compound conditions",
+      { OR: [{ id: 1 }, { NOT: { autorId: 1 } }] },
+      "$.OR[1].NOT.autorId",
+      'Unknown field "autorId"',
+    ],
+    [
+      "operators invalid for the data type",
+      { authorId: { like: "1%" } },
+      "$.authorId.like",
+      'Operator "like" is not supported on "posts.authorId" (integer)',
+    ],
+    [
+      "operands of the wrong type",
+      { authorId: { gt: "1" } },
+      "$.authorId.gt",
+      '"gt" expects to receive integer but instead got',
+    ],
+    [
+      "values of the wrong type",
+      { content: 1 },
+      "$.content",
+      '"content" expects to receive string but instead got',
+    ],
+    [
+      "quantifiers of many relations on one relations",
+      { author: { some: { name: "Alice" } } },
+      "$.author.some",
+      'Unknown field "some", "users"',
+    ],
+    [
+      "invalid operands of Mongo operators",
+      { authorId: { $in: ["1"] } },
+      "$.authorId.$in",
+      '"$in" expects to receive an array of integer but instead got',
+    ],
+  ])("should report %s", (_, conditions, path, message) => {
+    const error = validationError(conditions)
+
+    expect(error).toMatchObject({
+      ruleIndex: 1,
+      subject: "posts",
+      action: "read, update",
+      path,
+    })
+    expect(error.message).toContain(
+      `Rule #1 for "read, update" on "posts" at ${path}: ${message}`
+    )
+  })
+
+  it("should report parser errors of the rule", () => {
+    expect(validationError({ id: { in: 1 } })).toMatchObject({
+      ruleIndex: 1,
+      code: "INVALID_OPERATOR_VALUE",
+      path: "$.id.in",
+      message: expect.stringContaining('"in" expects to receive an array'),
+    })
+  })
+
+  it("should validate array columns and relation helpers", () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+      can("read", "simpleTable", { tags: { arrayContains: ["red"] } })
+      can("read", "posts", { comments: some(sql`text IS NOT NULL`) })
+      can("read", "simpleTable", { nums: { arrayOverlaps: ["1"] } })
+    })
+
+    expect(() => validateAbility(ability, relations)).toThrow(
+      'Rule #2 for "read" on "simpleTable" at $.nums.arrayOverlaps'
+    )
+  })
+
+  it("should map subjects to tables", () => {
+    const ability = createDrizzleAbility<UntypedSubjectMap, "read">((can) => {
+      can("read", "Article", { authorId: 1 })
+    })
+
+    expect(() =>
+      validateAbility(ability, relations, { subjects: { posts: "Article" } })
+    ).not.toThrow()
+    expect(() => validateAbility(ability, relations)).toThrow(
+      'Unknown subject "Article"'
+    )
+  })
+
+  it("should validate strict abilities when created and updated", () => {
+    const options = { strict: { relations } }
+    const ability = abilityWith({ authorId: 1 }, options)
+
+    expect(() => abilityWith({ autorId: 1 }, options)).toThrow(
+      'Unknown field "autorId"'
+    )
+    expect(() =>
+      ability.update([
+        { action: "read", subject: "posts", conditions: { autorId: 1 } },
+      ])
+    ).toThrow(ParsingQueryError)
+  })
+})
@@ -0,0 +1,139 @@
+import { ForbiddenError } from "@casl/ability"
+import { beforeAll, describe, expect, it } from "vitest"
+
+import type { QueryInput } from "../src"
+import { createDrizzleAbility, withAbility } from "../src"
+import { createDb } from "./setup"
+import type { relations } from "./setup/schema"
+import { schema } from "./setup/schema"
+
+const idsOf = (rows: { id: number }[]) =>
+  rows.map((row) => row.id).toSorted((a, b) => a - b)
+
+describe("withAbility (DB)", () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+
+  beforeAll(async () => {
+    db = await createDb(async (dbClient) => {
+      await dbClient.insert(schema.users).values([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+      ])
+
+      await dbClient.insert(schema.posts).values([
+        { id: 1, content: "Alice first post", authorId: 1 },
+        { id: 2, content: "Alice second post", authorId: 1 },
+        { id: 3, content: "Bob post", authorId: 2 },
+      ])
+    })
+  })
+
+  type AllowedAction = "read" | "update"
+
+  interface SubjectMap {
+    posts: QueryInput<typeof relations, "posts">
+    users: QueryInput<typeof relations, "users">
+    articles: QueryInput<typeof relations, "posts">
+  }
+
+  const ability = createDrizzleAbility<SubjectMap, AllowedAction>((can) => {
+    can("read", "posts", { authorId: 1 })
+    can("update", "posts", { id: 2 })
+    can("read", "users")
+    can("read", "articles", { authorId: 2 })
+  })
+
+  it("should only return permitted rows from findMany", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.query.posts.findMany()
+
+    expect(idsOf(results)).toStrictEqual([1, 2])
+  })
+
+  it("should AND the caller's where into the permission conditions", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.query.posts.findMany({
+      where: { OR: [{ id: 2 }, { id: 3 }] },
+    })
+
+    expect(idsOf(results)).toStrictEqual([2])
+  })
+
+  it("should scope findFirst", async () => {
+    const scopedDb = withAbility(db, ability)
+
+    await expect(
+      scopedDb.query.posts.findFirst({ where: { id: 3 } })
+    ).resolves.toBeUndefined()
+    await expect(
+      scopedDb.query.posts.findFirst({ where: { id: 1 } })
+    ).resolves.toMatchObject({
+      id: 1,
+    })
+  })
+
+  it("should use the configured action", async () => {
+    const scopedDb = withAbility(db, ability, { action: "update" })
+    const results = await scopedDb.query.posts.findMany()
+
+    expect(idsOf(results)).toStrictEqual([2])
+  })
+
+  it("should map table keys to subjects", async () => {
+    const scopedDb = withAbility(db, ability, {
+      subjects: { posts: "articles" },
+    })
+    const results = await scopedDb.query.posts.findMany()
+
+    expect(idsOf(results)).toStrictEqual([3])
+  })
+
+  it("should not filter subjects with unconditional access", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.query.users.findMany({
+      where: { id: { gt: 1 } },
+    })
+
+    expect(idsOf(results)).toStrictEqual([2])
+  })
+
+  it("should scope relations loaded via with", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.query.users.findMany({
+      with: { posts: true },
+      orderBy: { id: "asc" },
+    })
+
+    expect(results.map((user) => idsOf(user.posts))).toStrictEqual([[1, 2], []])
+  })
+
+  it("should throw ForbiddenError for subjects without rules", () => {
+    const scopedDb = withAbility(db, ability)
+
+    expect(() => scopedDb.query.comments.findMany()).toThrow(ForbiddenError)
+  })
+
+  it("should scope queries inside transactions", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.transaction((tx) =>
+      tx.query.posts.findMany()
+    )
+
+    expect(idsOf(results)).toStrictEqual([1, 2])
+  })
+
+  it("should keep non-relational APIs untouched", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.select().from(schema.posts)
+
+    expect(idsOf(results)).toStrictEqual([1, 2, 3])
+  })
+
+  it("should expose the unscoped client as explicit escape hatch", async () => {
+    const scopedDb = withAbility(db, ability)
+    const results = await scopedDb.$unscoped().query.posts.findMany()
+
+    expect(scopedDb.$unscoped()).toBe(db)
+    expect(idsOf(results)).toStrictEqual([1, 2, 3])
+  })
+})